@@ -0,0 +1,105 @@
+/**
+ * Fake Vision Server
+ * Answers the local describer's and detector's requests with canned JSON, for tests and offline demos.
+ * Run it with `npx tsx scripts/fakeVisionServer.ts [port]` and set SCENE_DESCRIBER=local, OBJECT_DETECTOR=local.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Reply to one endpoint: a status and the JSON (or, for error replies, text) body sent with it
+export interface CannedReply {
+  status: number;
+  body: unknown;
+}
+
+export interface FakeVisionServerOptions {
+  describe?: CannedReply;
+  detect?: CannedReply;
+}
+
+// A request the server received, with its parsed JSON body
+export interface ReceivedRequest {
+  path: string;
+  body: any;
+}
+
+export interface FakeVisionServer {
+  url: string; // base URL to give LocalSceneDescriber and LocalObjectDetector
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+export const DEFAULT_DESCRIBE_REPLY: CannedReply = {
+  status: 200,
+  body: { text: 'A quiet residential street with a bakery on the corner ahead.' }
+};
+
+export const DEFAULT_DETECT_REPLY: CannedReply = {
+  status: 200,
+  body: {
+    predictions: [{ class: 'store-sign', confidence: 0.82, x: 320, y: 140, width: 180, height: 60 }],
+    image: { width: 640, height: 480 }
+  }
+};
+
+/**
+ * Start the server on a port (default: any free port)
+ */
+export function startFakeVisionServer(options: FakeVisionServerOptions = {}, port: number = 0): Promise<FakeVisionServer> {
+  const replies: Record<string, CannedReply> = {
+    '/describe': options.describe || DEFAULT_DESCRIBE_REPLY,
+    '/detect': options.detect || DEFAULT_DETECT_REPLY
+  };
+  const requests: ReceivedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const path = (req.url || '').split('?')[0];
+      const reply = req.method === 'POST' ? replies[path] : undefined;
+      if (!reply) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end(`No canned reply for ${req.method} ${path}`);
+        return;
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Request body is not JSON');
+        return;
+      }
+      requests.push({ path, body });
+
+      const ok = reply.status >= 200 && reply.status < 300;
+      res.writeHead(reply.status, { 'Content-Type': ok ? 'application/json' : 'text/plain' });
+      res.end(ok ? JSON.stringify(reply.body) : String(reply.body));
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        requests,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done())))
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  const port = parseInt(process.argv[2] || '', 10) || 8090;
+  startFakeVisionServer({}, port).then(server => {
+    console.log(`🧪 Fake vision server listening on ${server.url}`);
+  }).catch(error => {
+    console.error('❌ Failed to start fake vision server:', error);
+    process.exit(1);
+  });
+}
@@ -6,8 +6,8 @@
 import 'dotenv/config';
 import { AppServer, AppSession, ToolCall } from '@mentra/sdk';
 import path from 'path';
-import { NavigationManager } from './services/navigationManager.js';
-import { MappingService } from './services/mappingService.js';
+import { NavigationManager, type LocationStreamData } from './services/navigationManager.js';
+import { getDefaultLookupCache } from './services/lookupCache.js';
 import { NavigationSettings, Coordinates, PlaceSearchResult } from './types/navigation.js';
 
 // Load configuration from environment variables
@@ -20,7 +20,6 @@ const PORT = parseInt(process.env.PORT || '3000');
  * Provides turn-by-turn GPS navigation with voice guidance for smart glasses
  */
 class NavigationApp extends AppServer {
-  private mappingService: MappingService;
   private userNavigationManagers = new Map<string, NavigationManager>();
   private userSessions = new Map<string, AppSession>();
 
@@ -32,7 +31,6 @@ class NavigationApp extends AppServer {
       publicDir: path.resolve(__dirname, '../public'),
     });
 
-    this.mappingService = new MappingService();
     console.log('🧭 MentraOS Navigation App initialized');
   }
 
@@ -66,8 +64,31 @@ class NavigationApp extends AppServer {
         case 'navigate_to_destination':
           return await this.handleNavigateToDestination(toolParameters?.destination as string, navigationManager, session);
 
+        case 'plan_errands':
+          return await this.handlePlanErrands(toolParameters?.stops as string, toolParameters?.destination as string, navigationManager);
+
+        case 'choose_destination':
+          return await this.handleChooseDestination(toolParameters?.choice as string, navigationManager);
+
         case 'find_nearby_places':
-          return await this.handleFindNearbyPlaces(toolParameters?.place_type as string, navigationManager, session);
+          return await this.handleFindNearbyPlaces(
+            toolParameters?.place_type as string,
+            {
+              openNow: toolParameters?.open_now === true || toolParameters?.open_now === 'true',
+              category: toolParameters?.category as string | undefined
+            },
+            navigationManager,
+            session
+          );
+
+        case 'next_place':
+          return this.handleBrowsePlaces(1, navigationManager);
+
+        case 'previous_place':
+          return this.handleBrowsePlaces(-1, navigationManager);
+
+        case 'go_to_place':
+          return await this.handleGoToPlace(navigationManager);
 
         case 'cancel_navigation':
           return this.handleCancelNavigation(navigationManager);
@@ -78,9 +99,24 @@ class NavigationApp extends AppServer {
         case 'alternative_route':
           return await this.handleAlternativeRoute(navigationManager);
 
+        case 'select_route':
+          return this.handleSelectRoute(toolParameters?.route_number as string, navigationManager);
+
         case 'add_waypoint':
           return await this.handleAddWaypoint(toolParameters?.waypoint as string, navigationManager);
 
+        case 'remove_waypoint':
+          return await this.handleRemoveWaypoint(toolParameters?.stop as string, navigationManager);
+
+        case 'move_waypoint':
+          return await this.handleMoveWaypoint(toolParameters?.stop as string, toolParameters?.position as string, navigationManager);
+
+        case 'list_stops':
+          return navigationManager ? navigationManager.describeRemainingStops() : 'Navigation manager not available.';
+
+        case 'where_am_i':
+          return navigationManager ? await navigationManager.describeSurroundings() : 'Navigation manager not available.';
+
         case 'report_traffic':
           return this.handleReportTraffic(toolParameters?.report_type as string, navigationManager);
 
@@ -155,6 +191,33 @@ class NavigationApp extends AppServer {
       this.updateNavigationSettings(session, navigationManager);
     });
 
+    session.settings.onValueChange('voice_language', (newValue: any, oldValue: any) => {
+      console.log(`Voice language changed for user ${userId}: ${oldValue} -> ${newValue}`);
+      this.updateNavigationSettings(session, navigationManager);
+    });
+
+    session.settings.onValueChange('accessibility_mode', (newValue: any, oldValue: any) => {
+      console.log(`Accessibility mode changed for user ${userId}: ${oldValue} -> ${newValue}`);
+      this.updateNavigationSettings(session, navigationManager);
+    });
+
+    session.settings.onValueChange('stride_length', (newValue: any, oldValue: any) => {
+      console.log(`Stride length changed for user ${userId}: ${oldValue} -> ${newValue}`);
+      this.updateNavigationSettings(session, navigationManager);
+    });
+
+    session.settings.onValueChange('scene_side_views', (newValue: any, oldValue: any) => {
+      console.log(`Scene side views changed for user ${userId}: ${oldValue} -> ${newValue}`);
+      this.updateNavigationSettings(session, navigationManager);
+    });
+
+    for (const key of ['prefer_signalized_crossings', 'minimize_crossings', 'avoid_steps', 'avoid_unpaved', 'prefer_sidewalks']) {
+      session.settings.onValueChange(key, (newValue: any, oldValue: any) => {
+        console.log(`Walking route preference ${key} changed for user ${userId}: ${oldValue} -> ${newValue}`);
+        this.updateNavigationSettings(session, navigationManager);
+      });
+    }
+
     // Clean up when session ends
     this.addCleanupHandler(() => this.userSessions.delete(userId));
   }
@@ -221,6 +284,12 @@ class NavigationApp extends AppServer {
       const success = await navigationManager.startNavigation(destination);
       if (success) {
         return `Navigation started to ${destination}. Follow the directions on your display.`;
+      }
+
+      // Several places matched - the user picks one with "choose"
+      const prompt = navigationManager.getPendingDestinationPrompt();
+      if (prompt) {
+        return prompt;
       } else {
         return `Unable to calculate route to "${destination}". Please check the address and try again.`;
       }
@@ -230,8 +299,64 @@ class NavigationApp extends AppServer {
     }
   }
 
+  private async handleChooseDestination(choice: string, navigationManager: NavigationManager | undefined): Promise<string> {
+    if (!navigationManager) {
+      return 'Navigation manager not initialized. Please restart the app.';
+    }
+
+    const prompt = navigationManager.getPendingDestinationPrompt();
+    if (!prompt) {
+      return 'There is nothing to choose right now. Say "navigate to" and a destination.';
+    }
+
+    const number = this.parseSpokenNumber(choice);
+    if (!number) {
+      return prompt;
+    }
+
+    const success = await navigationManager.chooseDestination(number);
+    if (success) {
+      return 'Navigation started. Follow the directions on your display.';
+    }
+    return navigationManager.getPendingDestinationPrompt() || 'Unable to calculate a route to that place. Please try again.';
+  }
+
+  private async handlePlanErrands(
+    stopsText: string,
+    destination: string | undefined,
+    navigationManager: NavigationManager | undefined
+  ): Promise<string> {
+    const stops = this.parseStopList(stopsText);
+
+    if (stops.length === 0) {
+      return 'Please list your stops. For example: "Errands pharmacy, post office, then grocery store"';
+    }
+
+    if (!navigationManager) {
+      return 'Navigation manager not initialized. Please restart the app.';
+    }
+
+    if (navigationManager.isSessionLocked()) {
+      return 'Navigation session is locked. Say "restart session" to start a new route.';
+    }
+
+    try {
+      const success = await navigationManager.planErrands(stops, destination || undefined);
+      if (!success) {
+        return 'Unable to plan a route through those stops. Please check the names and try again.';
+      }
+
+      const order = navigationManager.getWaypoints().map(stop => stop.location.name).filter(Boolean);
+      return `Navigation started. Visiting ${order.length > 0 ? order.join(', then ') : 'your stops'} in the quickest order.`;
+    } catch (error) {
+      console.error('Error planning errands:', error);
+      return 'Error planning your stops. Please try again.';
+    }
+  }
+
   private async handleFindNearbyPlaces(
     placeType: string,
+    filters: { openNow?: boolean; category?: string },
     navigationManager: NavigationManager | undefined,
     session: AppSession
   ): Promise<string> {
@@ -273,32 +398,42 @@ class NavigationApp extends AppServer {
         return 'Unable to get current location. Please ensure location services are enabled and try again.';
       }
 
-      // Search for places
-      const places = await this.mappingService.searchPlaces(placeType, currentLocation, 5000);
-      
-      if (places.length === 0) {
-        return `No ${placeType} found nearby. Try searching for something else.`;
+      // Search for places - the results stay with the session for "next", "previous" and "go there"
+      const description = await navigationManager.findNearbyPlaces(placeType, currentLocation, filters);
+      if (!description) {
+        const openNow = filters.openNow ? ' open now' : '';
+        return `No ${placeType}${openNow} found nearby. Try searching for something else.`;
       }
 
-      // Show results
-      const nearestPlace = places[0];
-      const distance = nearestPlace.distance ? Math.round(nearestPlace.distance) : 'unknown';
-      
-      let resultText = `Found ${places.length} ${placeType}${places.length > 1 ? 's' : ''} nearby.\n\n`;
-      resultText += `Nearest: ${nearestPlace.name}\n`;
-      resultText += `Distance: ${distance}m\n`;
-      resultText += `Address: ${nearestPlace.formatted_address}\n\n`;
-      resultText += 'Say "Navigate to [place name]" to start directions.';
-
-      session.layouts.showTextWall(resultText, { durationMs: 10000 });
-
-      return `Found ${nearestPlace.name} ${distance}m away. Say "Navigate to ${nearestPlace.name}" to start directions.`;
+      session.layouts.showTextWall(description, { durationMs: 10000 });
+      return description;
     } catch (error) {
       console.error('Error finding nearby places:', error);
       return 'Error searching for nearby places. Please try again.';
     }
   }
 
+  private handleBrowsePlaces(step: number, navigationManager: NavigationManager | undefined): string {
+    if (!navigationManager) {
+      return 'Navigation manager not available.';
+    }
+
+    return navigationManager.browsePlaceResults(step) || 'No places to browse. Say "find nearby" followed by what you are looking for.';
+  }
+
+  private async handleGoToPlace(navigationManager: NavigationManager | undefined): Promise<string> {
+    if (!navigationManager) {
+      return 'Navigation manager not available.';
+    }
+
+    if (navigationManager.isSessionLocked()) {
+      return 'Navigation session is locked. Say "restart session" to start a new route.';
+    }
+
+    const name = await navigationManager.goToPlaceResult();
+    return name ? `Navigation started to ${name}.` : 'No place selected. Say "find nearby" followed by what you are looking for.';
+  }
+
   private handleCancelNavigation(navigationManager: NavigationManager | undefined): string {
     if (!navigationManager) {
       return 'Navigation manager not available.';
@@ -321,8 +456,28 @@ class NavigationApp extends AppServer {
       return 'Navigation manager not available.';
     }
 
-    // In a real implementation, this would calculate alternative routes
-    return 'Alternative route calculation is not yet implemented. Current route is optimal.';
+    if (!navigationManager.isNavigating()) {
+      return 'Start navigation first, then ask for an alternative route.';
+    }
+
+    const comparison = await navigationManager.findAlternativeRoutes();
+    return comparison || 'Unable to find other routes right now. Continuing on the current route.';
+  }
+
+  private handleSelectRoute(routeNumber: string, navigationManager: NavigationManager | undefined): string {
+    if (!navigationManager) {
+      return 'Navigation manager not available.';
+    }
+
+    const number = this.parseSpokenNumber(routeNumber);
+    if (!number) {
+      return 'Please say which route to use, for example "use route 2".';
+    }
+
+    if (navigationManager.selectAlternativeRoute(number)) {
+      return `Switched to route ${number}.`;
+    }
+    return `Route ${number} is not available. Say "alternative route" to hear the current options.`;
   }
 
   private async handleAddWaypoint(
@@ -345,6 +500,43 @@ class NavigationApp extends AppServer {
     }
   }
 
+  private async handleRemoveWaypoint(stop: string, navigationManager: NavigationManager | undefined): Promise<string> {
+    if (!navigationManager) {
+      return 'Navigation manager not available.';
+    }
+
+    const stopNumber = this.findStopNumber(stop, navigationManager);
+    if (!stopNumber) {
+      return `I couldn't find that stop. ${navigationManager.describeRemainingStops()}`;
+    }
+
+    const success = await navigationManager.removeWaypoint(stopNumber);
+    return success
+      ? `Stop ${stopNumber} removed. Route has been updated.`
+      : `Unable to remove stop ${stopNumber}. Stops already visited can't be removed.`;
+  }
+
+  private async handleMoveWaypoint(
+    stop: string,
+    position: string,
+    navigationManager: NavigationManager | undefined
+  ): Promise<string> {
+    if (!navigationManager) {
+      return 'Navigation manager not available.';
+    }
+
+    const stopNumber = this.findStopNumber(stop, navigationManager);
+    const newPosition = this.parseSpokenNumber(position);
+    if (!stopNumber || !newPosition) {
+      return 'Please say which stop to move and where, for example "move stop 3 to 1".';
+    }
+
+    const success = await navigationManager.moveWaypoint(stopNumber, newPosition);
+    return success
+      ? `Stop ${stopNumber} is now stop ${newPosition}. Route has been updated.`
+      : `Unable to move stop ${stopNumber} to ${newPosition}. ${navigationManager.describeRemainingStops()}`;
+  }
+
   private handleReportTraffic(
     reportType: string,
     navigationManager: NavigationManager | undefined
@@ -376,7 +568,15 @@ class NavigationApp extends AppServer {
       save_frequent_destinations: (session.settings.get('save_frequent_destinations') as boolean) ?? true,
       speed_limit_warnings: (session.settings.get('speed_limit_warnings') as boolean) ?? true,
       traffic_alerts: (session.settings.get('traffic_alerts') as boolean) ?? true,
-      hands_free_mode: (session.settings.get('hands_free_mode') as boolean) ?? true
+      hands_free_mode: (session.settings.get('hands_free_mode') as boolean) ?? true,
+      accessibility_mode: (session.settings.get('accessibility_mode') as boolean) ?? false,
+      stride_length: (session.settings.get('stride_length') as number) ?? 70,
+      scene_side_views: (session.settings.get('scene_side_views') as boolean) ?? false,
+      prefer_signalized_crossings: (session.settings.get('prefer_signalized_crossings') as boolean) ?? true,
+      minimize_crossings: (session.settings.get('minimize_crossings') as boolean) ?? false,
+      avoid_steps: (session.settings.get('avoid_steps') as boolean) ?? true,
+      avoid_unpaved: (session.settings.get('avoid_unpaved') as boolean) ?? false,
+      prefer_sidewalks: (session.settings.get('prefer_sidewalks') as boolean) ?? true
     };
   }
 
@@ -439,15 +639,16 @@ class NavigationApp extends AppServer {
       console.log('🔄 Starting location stream...');
       const stopLocationUpdates = session.location.subscribeToStream(
         { accuracy: 'reduced' },
-        (data) => {
+        (data: LocationStreamData) => {
           // This function is your handler - following docs pattern exactly
           console.log(`New location: ${data.lat}, ${data.lng}`);
           
           // Your app logic here - pass to navigation manager
           navigationManager.onLocationUpdate({
-            location: { lat: data.lat, lng: data.lng },
-            speed: undefined,
-            heading: undefined,
+            location: { lat: data.lat, lng: data.lng, accuracy: data.accuracy },
+            speed: data.speed,
+            heading: data.heading,
+            course: data.course,
             timestamp: new Date()
           });
         }
@@ -479,16 +680,109 @@ class NavigationApp extends AppServer {
       // Extract destination from transcription
       const destination = this.extractDestinationFromText(text);
       if (destination) {
-        this.handleNavigateToDestination(destination, navigationManager, session);
+        this.handleNavigateToDestination(destination, navigationManager, session)
+          .catch(error => this.handleTranscriptionError('navigate', error, navigationManager, session));
       }
     } else if (lowerText.includes('stop navigation') || lowerText.includes('cancel')) {
       this.handleCancelNavigation(navigationManager);
+    } else if (navigationManager.hasPlaceResults() && /\b(next|previous|go there)\b/.test(lowerText)) {
+      if (lowerText.includes('go there')) {
+        this.handleGoToPlace(navigationManager).then(response => {
+          session.layouts.showTextWall(response, { durationMs: 5000 });
+        }).catch(error => this.handleTranscriptionError('go there', error, navigationManager, session));
+      } else {
+        const response = this.handleBrowsePlaces(lowerText.includes('previous') ? -1 : 1, navigationManager);
+        session.layouts.showTextWall(response, { durationMs: 10000 });
+      }
+    } else if (/\bchoose\b/.test(lowerText)) {
+      this.handleChooseDestination(lowerText.split('choose')[1], navigationManager).then(response => {
+        session.layouts.showTextWall(response, { durationMs: 5000 });
+      }).catch(error => this.handleTranscriptionError('choose', error, navigationManager, session));
+    } else if (/\buse route\b/.test(lowerText)) {
+      const response = this.handleSelectRoute(lowerText.split('use route')[1], navigationManager);
+      session.layouts.showTextWall(response, { durationMs: 5000 });
+    } else if (lowerText.includes('where am i')) {
+      navigationManager.describeSurroundings().then(response => {
+        session.layouts.showTextWall(response, { durationMs: 10000 });
+        navigationManager.speakReply(response, 'surroundings');
+      }).catch(error => this.handleTranscriptionError('where am I', error, navigationManager, session));
+    } else if (lowerText.includes('alternative route')) {
+      this.handleAlternativeRoute(navigationManager).then(response => {
+        session.layouts.showTextWall(response, { durationMs: 10000 });
+        navigationManager.speakReply(response, 'route-options');
+      }).catch(error => this.handleTranscriptionError('alternative route', error, navigationManager, session));
     } else if (lowerText.includes('status') || lowerText.includes('eta')) {
       const status = this.handleNavigationStatus(navigationManager);
       session.layouts.showTextWall(status, { durationMs: 5000 });
     }
   }
 
+  /**
+   * Tell the user a command said outside a tool call failed; nothing else awaits these calls,
+   * so an error left unhandled here would end the process
+   */
+  private handleTranscriptionError(
+    command: string,
+    error: unknown,
+    navigationManager: NavigationManager,
+    session: AppSession
+  ): void {
+    console.error(`❌ Error handling "${command}":`, error);
+    const message = `Sorry, "${command}" didn't work. Please try again.`;
+    session.layouts.showTextWall(message, { durationMs: 5000 });
+    navigationManager.speakReply(message);
+  }
+
+  /**
+   * Read a number spoken as a digit or a word ("2", "two", "second")
+   */
+  private parseSpokenNumber(text: string | undefined): number | null {
+    if (!text) return null;
+
+    const words: Record<string, number> = {
+      one: 1, first: 1, two: 2, second: 2, three: 3, third: 3, four: 4, fourth: 4, five: 5, fifth: 5
+    };
+    const match = text.toLowerCase().match(/\d+|\b(?:one|first|two|second|three|third|four|fourth|five|fifth)\b/);
+    if (!match) return null;
+
+    return words[match[0]] ?? parseInt(match[0], 10);
+  }
+
+  /**
+   * Split a spoken list of stops on commas and "then":
+   * "pharmacy, post office, then grocery" -> ["pharmacy", "post office", "grocery"].
+   * A bare "and" only separates the final item of a comma list, so names like "Barnes and Noble" stay whole
+   */
+  private parseStopList(text: string | undefined): string[] {
+    const stops = (text || '')
+      .split(/,|\b(?:and )?then\b/i)
+      .map(stop => stop.trim().replace(/^and\s+/i, ''))
+      .filter(Boolean);
+
+    if (stops.length > 1 && !/\bthen\b/i.test(text || '')) {
+      // "pharmacy, post office and grocery"
+      const last = stops[stops.length - 1].split(/\s+and\s+/i);
+      if (last.length > 1) {
+        stops.splice(stops.length - 1, 1, last.slice(0, -1).join(' and '), last[last.length - 1]);
+      }
+    }
+
+    return stops;
+  }
+
+  /**
+   * Find a trip stop by its spoken number or by the name it was added with
+   */
+  private findStopNumber(text: string | undefined, navigationManager: NavigationManager): number | null {
+    const number = this.parseSpokenNumber(text);
+    if (number || !text) return number;
+
+    const name = text.toLowerCase().trim();
+    const index = navigationManager.getWaypoints()
+      .findIndex(stop => !stop.visited && !!stop.location.name && stop.location.name.toLowerCase().includes(name));
+    return index >= 0 ? index + 1 : null;
+  }
+
   private extractDestinationFromText(text: string): string | null {
     // Simple extraction - in a real implementation, this would use NLP
     const patterns = [
@@ -517,13 +811,21 @@ class NavigationApp extends AppServer {
     // Clean up navigation manager
     const navigationManager = this.userNavigationManagers.get(userId);
     if (navigationManager) {
-      navigationManager.stopNavigation();
+      navigationManager.dispose();
     }
 
     // Remove references
     this.userSessions.delete(userId);
     this.userNavigationManagers.delete(userId);
   }
+
+  /**
+   * Save cached lookups before shutting down; the SDK calls this on SIGINT/SIGTERM and exits right after
+   */
+  async stop(): Promise<void> {
+    await getDefaultLookupCache().flush();
+    await super.stop();
+  }
 }
 
 // Start the navigation app
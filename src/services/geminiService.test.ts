@@ -0,0 +1,136 @@
+import os from 'os';
+import path from 'path';
+import { GeminiService } from './geminiService.js';
+import { ImageWorkspace } from './imageWorkspace.js';
+import { SceneFrame } from './scene/sceneSource.js';
+import { LocalObjectDetector, LocalSceneDescriber } from './vision/localVisionProvider.js';
+import { VisionProviderError } from './vision/visionProvider.js';
+import { FakeVisionServer, FakeVisionServerOptions, startFakeVisionServer } from '../../scripts/fakeVisionServer.js';
+
+const LOCATION = { lat: 52.52, lng: 13.405 };
+const IMAGE = Buffer.from('not really a jpeg');
+
+function frame(overrides: Partial<SceneFrame> = {}): SceneFrame {
+  return {
+    image: IMAGE,
+    mimeType: 'image/jpeg',
+    source: 'folder',
+    subject: 'a photo of the street ahead',
+    live: false,
+    ...overrides
+  };
+}
+
+let server: FakeVisionServer | undefined;
+let workspace: ImageWorkspace;
+
+async function createService(options: FakeVisionServerOptions = {}): Promise<GeminiService> {
+  server = await startFakeVisionServer(options);
+  return new GeminiService(workspace, new LocalSceneDescriber(server.url), new LocalObjectDetector(server.url));
+}
+
+beforeEach(() => {
+  workspace = new ImageWorkspace(path.join(os.tmpdir(), 'navigation-app-tests'));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+  workspace.dispose();
+  jest.restoreAllMocks();
+});
+
+describe('GeminiService.analyzeScene with the local describer', () => {
+  it('sends the prompt and labeled views and returns the description', async () => {
+    const service = await createService();
+
+    const analysis = await service.analyzeScene(frame({ sideViews: { left: Buffer.from('left view') } }), LOCATION);
+
+    expect(analysis).toEqual({ ok: true, description: 'A quiet residential street with a bakery on the corner ahead.' });
+    const request = server!.requests[0];
+    expect(request.path).toBe('/describe');
+    expect(request.body.prompt).toContain('a photo of the street ahead');
+    expect(request.body.images.map((image: any) => image.label)).toEqual([
+      'Ahead of the user (direction of travel):',
+      'To the user\'s left:'
+    ]);
+    expect(Buffer.from(request.body.images[0].data, 'base64')).toEqual(IMAGE);
+  });
+
+  it('reports an error status as a failure rather than a description', async () => {
+    const service = await createService({ describe: { status: 429, body: 'slow down' } });
+
+    const analysis = await service.analyzeScene(frame(), LOCATION);
+
+    expect(analysis).toEqual({ ok: false, error: 'Scene describer local rate limit exceeded - try again later' });
+  });
+
+  it('reports an empty reply as a failure', async () => {
+    const service = await createService({ describe: { status: 200, body: {} } });
+
+    await expect(service.analyzeScene(frame(), LOCATION)).resolves.toMatchObject({ ok: false });
+  });
+});
+
+describe('GeminiService.detectStoreSigns with the local detector', () => {
+  it('counts store signs among the predictions', async () => {
+    const service = await createService({
+      detect: {
+        status: 200,
+        body: {
+          predictions: [
+            { class: 'store-sign', confidence: 0.82, x: 320, y: 140, width: 180, height: 60 },
+            { class: 'store-sign', confidence: 0.41, x: 100, y: 150, width: 90, height: 40 },
+            { class: 'tree', confidence: 0.2, x: 500, y: 300, width: 80, height: 200 }
+          ]
+        }
+      }
+    });
+
+    const detection = await service.detectStoreSigns(IMAGE, LOCATION);
+
+    expect(detection).toEqual({
+      detected: true,
+      confidence: 0.82,
+      count: 2,
+      details: '2 store sign(s) detected (82.0% confidence)'
+    });
+    expect(Buffer.from(server!.requests[0].body.image, 'base64')).toEqual(IMAGE);
+  });
+
+  it('finds nothing when there are no predictions', async () => {
+    const service = await createService({ detect: { status: 200, body: { predictions: [] } } });
+
+    await expect(service.detectStoreSigns(IMAGE, LOCATION)).resolves.toEqual({
+      detected: false,
+      confidence: 0,
+      count: 0,
+      details: 'No store signs detected'
+    });
+  });
+
+  it('reports an error status in the details', async () => {
+    const service = await createService({ detect: { status: 503, body: 'model loading' } });
+
+    await expect(service.detectStoreSigns(IMAGE, LOCATION)).resolves.toEqual({
+      detected: false,
+      confidence: 0,
+      count: 0,
+      details: 'API error (503): model loading'
+    });
+  });
+});
+
+describe('local vision providers', () => {
+  it('raise VisionProviderError with the status and body of a non-2xx reply', async () => {
+    server = await startFakeVisionServer({ detect: { status: 401, body: 'bad key' } });
+
+    const error = await new LocalObjectDetector(server.url).detect(IMAGE).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(VisionProviderError);
+    expect(error).toMatchObject({ status: 401, body: 'bad key', message: 'Local vision API error (401): bad key' });
+  });
+});
@@ -1,12 +1,16 @@
 /**
  * Gemini AI Service
- * Handles processing Street View images with Gemini AI for navigation context
+ * Handles processing scene images (glasses camera, Street View) with Gemini AI for navigation context
  * Now includes Roboflow store sign detection with labeled image generation
+ * The models are reached through SceneDescriber and ObjectDetector, so a local stand-in can replace them
  */
 
-import fs from 'fs';
-import path from 'path';
 import { Coordinates } from '../types/navigation.js';
+import { ImageWorkspace } from './imageWorkspace.js';
+import { LookupCache } from './lookupCache.js';
+import type { SceneFrame } from './scene/sceneSource.js';
+import { LabeledImage, ObjectDetectionResult, ObjectDetector, SceneDescriber, VisionProviderError } from './vision/visionProvider.js';
+import { getDefaultObjectDetector, getDefaultSceneDescriber } from './vision/visionProviders.js';
 
 // Store Sign Detection Interface
 export interface StoreSignDetection {
@@ -16,108 +20,91 @@ export interface StoreSignDetection {
   details?: string;
 }
 
+// Outcome of a scene analysis; a failure carries a diagnostic for logs and the display, never for speech
+export type SceneAnalysis =
+  | { ok: true; description: string }
+  | { ok: false; error: string };
+
+// Shared by every session: the same panorama seen the same way gets the same description
+const sceneCache = new LookupCache({ maxEntries: 500 });
+
 export class GeminiService {
-  private apiKey: string;
-  private roboflowApiKey: string;
-  private roboflowEndpoint: string;
-  private imageDir: string;
-
-  constructor() {
-    this.apiKey = process.env.GOOGLE_GEMINI_API_KEY || '';
-    this.roboflowApiKey = process.env.ROBOFLOW_API_KEY || '';
-    this.roboflowEndpoint = 'https://serverless.roboflow.com/store-sign-2/1';
-    this.imageDir = path.join(process.cwd(), 'images');
-    
-    // Ensure images directory exists
-    if (!fs.existsSync(this.imageDir)) {
-      fs.mkdirSync(this.imageDir, { recursive: true });
-    }
-    
-    if (!this.apiKey) {
-      console.error('GOOGLE_GEMINI_API_KEY environment variable is required for Gemini AI');
-      console.error('Please set GOOGLE_GEMINI_API_KEY in your environment variables');
-    }
-    
-    if (!this.roboflowApiKey) {
-      console.error('ROBOFLOW_API_KEY environment variable is required for store sign detection');
-      console.error('Please set ROBOFLOW_API_KEY in your environment variables');
-    }
+  private describer: SceneDescriber;
+  private detector: ObjectDetector;
+  private workspace: ImageWorkspace;
+
+  /**
+   * @param workspace Session's own directory for labeled images and detection data
+   * @param describer Model that describes scenes (default: chosen by SCENE_DESCRIBER)
+   * @param detector Model that finds store signs (default: chosen by OBJECT_DETECTOR)
+   */
+  constructor(
+    workspace: ImageWorkspace,
+    describer: SceneDescriber = getDefaultSceneDescriber(),
+    detector: ObjectDetector = getDefaultObjectDetector()
+  ) {
+    this.workspace = workspace;
+    this.describer = describer;
+    this.detector = detector;
   }
 
   /**
-   * Detect store signs in an image using Roboflow and create labeled image
-   * @param imagePath - Path to the image file to analyze
+   * Detect store signs in an image using the object detector (Roboflow by default) and create labeled image
+   * @param imageBuffer - JPEG image data to analyze
    * @param location - The coordinates where the image was taken
+   * @param sceneKey - Optional identity of the view (panorama and heading); reuses an earlier result for the same view
    * @returns Promise<StoreSignDetection> - Detection results
    */
-  async detectStoreSigns(imagePath: string, location: Coordinates): Promise<StoreSignDetection> {
+  async detectStoreSigns(imageBuffer: Buffer, location: Coordinates, sceneKey?: string): Promise<StoreSignDetection> {
+    const cached = sceneKey ? sceneCache.get<StoreSignDetection>('signs', sceneKey) : undefined;
+    if (cached) {
+      console.log(`🎯 Using cached store sign detection for ${sceneKey}`);
+      return cached;
+    }
+
     try {
-      if (!this.roboflowApiKey) {
-        console.error('🚨 Roboflow API key is missing!');
+      if (!this.detector.isConfigured()) {
+        console.error(`🚨 Object detector ${this.detector.id} is not configured!`);
         return {
           detected: false,
           confidence: 0,
           count: 0,
-          details: 'Roboflow API not configured - missing ROBOFLOW_API_KEY'
+          details: this.detector.id === 'roboflow'
+            ? 'Roboflow API not configured - missing ROBOFLOW_API_KEY'
+            : `Object detector ${this.detector.id} not configured`
         };
       }
 
-      if (!fs.existsSync(imagePath)) {
-        console.error('🚨 Image file not found:', imagePath);
+      if (imageBuffer.length === 0) {
+        console.error('🚨 Empty image for store sign detection');
         return {
           detected: false,
           confidence: 0,
           count: 0,
-          details: 'Image file not found'
+          details: 'Image not available'
         };
       }
 
-      // Read and convert image to base64
-      const imageBuffer = fs.readFileSync(imagePath);
-      const base64Image = imageBuffer.toString('base64');
-      
-      console.log(`🏪 Analyzing image for store signs with Roboflow...`);
+      console.log(`🏪 Analyzing image for store signs with ${this.detector.id}...`);
       console.log(`📍 Location: ${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`);
       console.log(`🖼️ Image size: ${imageBuffer.length} bytes`);
-      console.log(`🔗 Roboflow endpoint: ${this.roboflowEndpoint}`);
-
-      const response = await fetch(`${this.roboflowEndpoint}?api_key=${this.roboflowApiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: base64Image
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`🚨 Roboflow API error: ${response.status} ${response.statusText}`);
-        console.error(`🚨 Response body: ${errorText}`);
-        return {
-          detected: false,
-          confidence: 0,
-          count: 0,
-          details: `API error (${response.status}): ${errorText}`
-        };
-      }
 
-      const data = await response.json();
-      console.log('🔍 Roboflow response:', JSON.stringify(data, null, 2));
+      const detection = await this.detector.detect(imageBuffer);
 
       // Process the predictions
-      const predictions = data.predictions || [];
-      const storeSignPredictions = predictions.filter((pred: any) => 
+      const predictions = detection.predictions;
+      const storeSignPredictions = predictions.filter(pred => 
         pred.class === 'text' || pred.class === 'store-sign' || pred.confidence > 0.3
       );
 
       const detected = storeSignPredictions.length > 0;
       const maxConfidence = storeSignPredictions.length > 0 
-        ? Math.max(...storeSignPredictions.map((pred: any) => pred.confidence))
+        ? Math.max(...storeSignPredictions.map(pred => pred.confidence))
         : 0;
 
       // Create labeled image if detections found
       if (detected) {
-        await this.createLabeledImage(imagePath, predictions, data);
+        await this.createLabeledImage(imageBuffer, detection);
       }
 
       const result: StoreSignDetection = {
@@ -130,10 +117,24 @@ export class GeminiService {
       };
 
       console.log(`✅ Store sign detection complete:`, result);
+      // Only successful detections are cached, so errors are retried next time
+      if (sceneKey) {
+        sceneCache.set('signs', sceneKey, result);
+      }
       return result;
       
     } catch (error) {
-      console.error('🚨 Error detecting store signs with Roboflow:', error);
+      if (error instanceof VisionProviderError) {
+        console.error(`🚨 ${error.message}`);
+        return {
+          detected: false,
+          confidence: 0,
+          count: 0,
+          details: `API error (${error.status}): ${error.body}`
+        };
+      }
+
+      console.error(`🚨 Error detecting store signs with ${this.detector.id}:`, error);
       return {
         detected: false,
         confidence: 0,
@@ -145,16 +146,18 @@ export class GeminiService {
 
   /**
    * Create a labeled image with detection boxes drawn on it
-   * @param originalImagePath - Path to the original image
-   * @param predictions - Roboflow predictions with bounding boxes
-   * @param roboflowData - Full Roboflow response data
+   * @param originalImageBuffer - Original JPEG image data, also saved to the workspace for comparison
+   * @param detection - Detector results with bounding boxes
    */
-  private async createLabeledImage(originalImagePath: string, predictions: any[], roboflowData: any): Promise<void> {
+  private async createLabeledImage(originalImageBuffer: Buffer, detection: ObjectDetectionResult): Promise<void> {
+    const predictions = detection.predictions;
+    const originalImagePath = this.workspace.writeFile('streetview.jpg', originalImageBuffer);
+
     try {
       const { createCanvas, loadImage } = await import('canvas');
       
       // Load the original image
-      const originalImage = await loadImage(originalImagePath);
+      const originalImage = await loadImage(originalImageBuffer);
       const canvas = createCanvas(originalImage.width, originalImage.height);
       const ctx = canvas.getContext('2d');
       
@@ -192,19 +195,16 @@ export class GeminiService {
       });
       
       // Save the labeled image
-      const labeledImagePath = path.join(this.imageDir, 'roboflow_labeled_image.jpg');
-      const buffer = canvas.toBuffer('image/jpeg');
-      fs.writeFileSync(labeledImagePath, buffer);
+      const labeledImagePath = this.workspace.writeFile('roboflow_labeled_image.jpg', canvas.toBuffer('image/jpeg'));
       console.log(`✅ Labeled image saved to: ${labeledImagePath}`);
       
       // Also save the detection data as JSON
-      const labeledDataPath = path.join(this.imageDir, 'roboflow_labeled_detections.json');
       const labelData = {
         timestamp: new Date().toISOString(),
         originalImage: originalImagePath,
         labeledImage: labeledImagePath,
-        imageWidth: roboflowData.image?.width || originalImage.width,
-        imageHeight: roboflowData.image?.height || originalImage.height,
+        imageWidth: detection.imageWidth || originalImage.width,
+        imageHeight: detection.imageHeight || originalImage.height,
         predictions: predictions.map((pred: any) => ({
           class: pred.class,
           confidence: pred.confidence,
@@ -222,29 +222,27 @@ export class GeminiService {
         }))
       };
 
-      fs.writeFileSync(labeledDataPath, JSON.stringify(labelData, null, 2));
+      const labeledDataPath = this.workspace.writeFile('roboflow_labeled_detections.json', JSON.stringify(labelData, null, 2));
       console.log(`✅ Detection data saved to: ${labeledDataPath}`);
       
       // Also create a simple text overlay file for debugging
-      const debugPath = path.join(this.imageDir, 'roboflow_debug.txt');
       const debugText = `Store Sign Detection Results\n` +
         `Timestamp: ${new Date().toISOString()}\n` +
         `Detections: ${predictions.length}\n` +
         `Labeled Image: ${labeledImagePath}\n` +
         `Details:\n${predictions.map(p => `- ${p.class}: ${(p.confidence * 100).toFixed(1)}% at (${p.x},${p.y})`).join('\n')}`;
       
-      fs.writeFileSync(debugPath, debugText);
+      const debugPath = this.workspace.writeFile('roboflow_debug.txt', debugText);
       console.log(`✅ Debug info saved to: ${debugPath}`);
       
     } catch (error) {
       console.error('Error creating labeled image:', error);
       // Fallback to JSON only if canvas fails
-      const labeledDataPath = path.join(this.imageDir, 'roboflow_labeled_detections.json');
       const labelData = {
         timestamp: new Date().toISOString(),
         originalImage: originalImagePath,
-        imageWidth: roboflowData.image?.width || 640,
-        imageHeight: roboflowData.image?.height || 640,
+        imageWidth: detection.imageWidth || 640,
+        imageHeight: detection.imageHeight || 640,
         error: 'Canvas drawing failed',
         predictions: predictions.map((pred: any) => ({
           class: pred.class,
@@ -256,7 +254,7 @@ export class GeminiService {
         }))
       };
 
-      fs.writeFileSync(labeledDataPath, JSON.stringify(labelData, null, 2));
+      const labeledDataPath = this.workspace.writeFile('roboflow_labeled_detections.json', JSON.stringify(labelData, null, 2));
       console.log(`✅ Fallback detection data saved to: ${labeledDataPath}`);
     }
   }
@@ -264,44 +262,88 @@ export class GeminiService {
   /**
    * Analyze a Street View image with Gemini AI for navigation context
    * Now includes store sign information when detected
-   * @param imagePath - Path to the image file to analyze
+   * @param imageBuffer - JPEG image data to analyze
    * @param location - The coordinates where the image was taken
    * @param storeSignDetection - Optional store sign detection results to include in prompt
-   * @returns Promise<string> - AI description of the surroundings
+   * @param sideViews - Optional views to the user's left and right, so the description can say which side things are on
+   * @param sceneKey - Optional identity of the views (panorama, heading, sides); reuses an earlier description of the same views
+   * @returns Promise<SceneAnalysis> - AI description of the surroundings, or why there is none
    */
   async analyzeStreetViewImage(
-    imagePath: string, 
+    imageBuffer: Buffer, 
     location: Coordinates, 
-    storeSignDetection?: StoreSignDetection
-  ): Promise<string> {
+    storeSignDetection?: StoreSignDetection,
+    sideViews?: { left?: Buffer; right?: Buffer },
+    sceneKey?: string
+  ): Promise<SceneAnalysis> {
+    return this.analyzeScene({
+      image: imageBuffer,
+      mimeType: 'image/jpeg',
+      source: 'streetview',
+      subject: 'a Street View image, taken facing the way the user is walking',
+      live: false,
+      sideViews,
+      sceneKey
+    }, location, storeSignDetection);
+  }
+
+  /**
+   * Analyze a frame from any scene source (glasses camera, Street View, image folder) with the scene describer (Gemini by default)
+   * @param frame - The captured frame; its subject tells the model what kind of image it is looking at
+   * @param location - The coordinates where the frame was captured
+   * @param storeSignDetection - Optional store sign detection results to include in prompt
+   * @returns Promise<SceneAnalysis> - AI description of the surroundings, or why there is none
+   */
+  async analyzeScene(frame: SceneFrame, location: Coordinates, storeSignDetection?: StoreSignDetection): Promise<SceneAnalysis> {
+    const { image: imageBuffer, sideViews, sceneKey } = frame;
+    const cached = sceneKey ? sceneCache.get<string>('analysis', sceneKey) : undefined;
+    if (cached) {
+      console.log(`🎯 Using cached scene description for ${sceneKey}`);
+      return { ok: true, description: cached };
+    }
+
     try {
-      if (!this.apiKey) {
-        console.error('🚨 Gemini API key is missing!');
-        return 'Gemini AI not configured - missing GOOGLE_GEMINI_API_KEY';
+      if (!this.describer.isConfigured()) {
+        console.error(`🚨 Scene describer ${this.describer.id} is not configured!`);
+        return {
+          ok: false,
+          error: this.describer.id === 'gemini'
+            ? 'Gemini AI not configured - missing GOOGLE_GEMINI_API_KEY'
+            : `Scene describer ${this.describer.id} not configured`
+        };
       }
 
-      if (!fs.existsSync(imagePath)) {
-        console.error('🚨 Street View image file not found:', imagePath);
-        return 'No street view image available';
+      if (imageBuffer.length === 0) {
+        console.error(`🚨 Empty image from scene source ${frame.source}`);
+        return { ok: false, error: 'No scene image available' };
       }
 
-      // Read and convert image to base64
-      const imageBuffer = fs.readFileSync(imagePath);
-      const base64Image = imageBuffer.toString('base64');
+      // Images with a caption saying which way each one looks; the view ahead comes first
+      const views: LabeledImage[] = [{ label: 'Ahead of the user (direction of travel):', image: imageBuffer, mimeType: frame.mimeType }];
+      if (sideViews?.left) views.push({ label: 'To the user\'s left:', image: sideViews.left, mimeType: frame.mimeType });
+      if (sideViews?.right) views.push({ label: 'To the user\'s right:', image: sideViews.right, mimeType: frame.mimeType });
       
-      console.log(`🤖 Analyzing Street View image with Gemini AI...`);
+      console.log(`🤖 Analyzing ${views.length} image(s) from scene source ${frame.source} with ${this.describer.id}...`);
       console.log(`📍 Location: ${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`);
       console.log(`🖼️ Image size: ${imageBuffer.length} bytes`);
-      console.log(`🔗 Gemini endpoint: https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent`);
 
       // Enhanced prompt that includes store sign information
-      let customPrompt = `You are a navigation assistant analyzing a street view image to provide brief context about the surroundings. 
+      let customPrompt = `You are a navigation assistant analyzing a street image to provide brief context about the surroundings. 
 
-Look at this street view image and provide a concise description (2-3 sentences maximum) that would be helpful for navigation, focusing on:
+Look at this image, ${frame.subject}, and provide a concise description (2-3 sentences maximum) that would be helpful for navigation, focusing on:
 - Notable landmarks, buildings, or signs
 - General environment (urban, suburban, residential, commercial)
 - Any distinctive features that would help with navigation`;
 
+      // Only a live frame can show what is in the way right now
+      if (frame.live) {
+        customPrompt += `\n\nThis image shows the street as it is right now. Mention first any obstacles in the user's path, such as people, bicycles, parked vehicles, construction or poles.`;
+      }
+
+      if (views.length > 1) {
+        customPrompt += `\n\nYou are also given the views to the user's left and right. Say where each landmark you mention is: ahead, on the left or on the right.`;
+      }
+
       // Add store sign information to prompt if detected
       if (storeSignDetection?.detected) {
         customPrompt += `\n\nIMPORTANT: Store signs have been detected in this image. Please mention that the user is in proximity of store signs and communicate this to the user prominently in your response.`;
@@ -311,60 +353,11 @@ Look at this street view image and provide a concise description (2-3 sentences
 
 If the image is unclear or shows no distinctive features, respond with: "Generic street view with no notable landmarks."`;
 
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${this.apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [
-                {
-                  text: customPrompt
-                },
-                {
-                  inline_data: {
-                    mime_type: "image/jpeg",
-                    data: base64Image
-                  }
-                }
-              ]
-            }]
-          })
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`🚨 Gemini API error: ${response.status} ${response.statusText}`);
-        console.error(`🚨 Response body: ${errorText}`);
-        
-        // Provide more specific error messages
-        if (response.status === 401) {
-          return 'Gemini API authentication failed - check GOOGLE_GEMINI_API_KEY';
-        } else if (response.status === 429) {
-          return 'Gemini API rate limit exceeded - try again later';
-        } else if (response.status === 403) {
-          return 'Gemini API access forbidden - check API key permissions';
-        } else {
-          return `Gemini API error (${response.status}) - check API configuration`;
-        }
-      }
-
-      const data = await response.json();
-      console.log('🔍 Gemini response structure:', {
-        candidates: data.candidates?.length || 0,
-        hasContent: !!data.candidates?.[0]?.content,
-        hasParts: !!data.candidates?.[0]?.content?.parts?.length
-      });
-
-      const analysis = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      const analysis = await this.describer.describe({ prompt: customPrompt, images: views });
       
       if (!analysis) {
-        console.error('🚨 No analysis text found in Gemini response');
-        return 'No AI analysis available - empty response';
+        console.error(`🚨 No analysis text found in ${this.describer.id} response`);
+        return { ok: false, error: 'No AI analysis available - empty response' };
       }
 
       // Clean up the response and limit length
@@ -378,12 +371,40 @@ If the image is unclear or shows no distinctive features, respond with: "Generic
         ? cleanedAnalysis.substring(0, 97) + '...'
         : cleanedAnalysis;
 
-      console.log(`✅ Gemini AI analysis complete: ${truncatedAnalysis}`);
-      return truncatedAnalysis;
+      console.log(`✅ ${this.describer.id} analysis complete: ${truncatedAnalysis}`);
+      if (sceneKey) {
+        sceneCache.set('analysis', sceneKey, truncatedAnalysis);
+      }
+      return { ok: true, description: truncatedAnalysis };
       
     } catch (error) {
-      console.error('🚨 Error analyzing image with Gemini AI:', error);
-      return `AI analysis error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (error instanceof VisionProviderError) {
+        console.error(`🚨 ${error.message}`);
+        return { ok: false, error: this.describeProviderError(error) };
+      }
+
+      console.error(`🚨 Error analyzing image with ${this.describer.id}:`, error);
+      return { ok: false, error: `AI analysis error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+
+  /**
+   * Short message for a describer error status, shown in place of the description
+   */
+  private describeProviderError(error: VisionProviderError): string {
+    const name = this.describer.id === 'gemini' ? 'Gemini API' : `Scene describer ${this.describer.id}`;
+
+    // Provide more specific error messages
+    if (error.status === 401) {
+      return this.describer.id === 'gemini'
+        ? 'Gemini API authentication failed - check GOOGLE_GEMINI_API_KEY'
+        : `${name} authentication failed`;
+    } else if (error.status === 429) {
+      return `${name} rate limit exceeded - try again later`;
+    } else if (error.status === 403) {
+      return `${name} access forbidden - check API key permissions`;
+    } else {
+      return `${name} error (${error.status}) - check API configuration`;
     }
   }
 
@@ -0,0 +1,105 @@
+/**
+ * Heading Tracker
+ * Determines which way the user is facing or moving from the location stream
+ */
+
+import { Coordinates, NavigationUpdate } from '../types/navigation.js';
+import { calculateBearing, calculateDistance } from '../utils/distance.js';
+
+export type HeadingSource = 'device' | 'course' | 'derived';
+
+export interface HeadingEstimate {
+  heading: number; // degrees (0-360)
+  source: HeadingSource;
+  timestamp: Date;
+}
+
+interface TimedFix {
+  location: Coordinates;
+  timestamp: number;
+}
+
+export class HeadingTracker {
+  private recentFixes: TimedFix[] = [];
+  private estimate?: HeadingEstimate;
+
+  private static readonly FIX_HISTORY_MS = 30000; // fixes older than 30 seconds aren't used to derive heading
+  private static readonly MIN_DERIVED_DISPLACEMENT = 8; // meters moved before a derived heading is trusted
+  private static readonly MAX_HEADING_AGE_MS = 20000; // a heading not refreshed for 20 seconds is considered unknown
+
+  /**
+   * Feed a location update. Device heading wins over course over ground,
+   * which wins over a heading derived from the last few fixes.
+   */
+  update(update: NavigationUpdate): void {
+    const time = update.timestamp.getTime();
+
+    this.recentFixes.push({ location: update.location, timestamp: time });
+    this.recentFixes = this.recentFixes.filter(fix => time - fix.timestamp <= HeadingTracker.FIX_HISTORY_MS);
+
+    if (this.isValidHeading(update.heading)) {
+      this.estimate = { heading: update.heading, source: 'device', timestamp: update.timestamp };
+      return;
+    }
+
+    if (this.isValidHeading(update.course)) {
+      this.estimate = { heading: update.course, source: 'course', timestamp: update.timestamp };
+      return;
+    }
+
+    const derived = this.deriveHeading(update.location);
+    if (derived !== undefined) {
+      this.estimate = { heading: derived, source: 'derived', timestamp: update.timestamp };
+    }
+  }
+
+  /**
+   * Get the current heading estimate
+   * @param now Reference time for staleness (default: now)
+   * @returns Heading estimate, or undefined if unknown or stale
+   */
+  getEstimate(now: Date = new Date()): HeadingEstimate | undefined {
+    if (!this.estimate) {
+      return undefined;
+    }
+
+    if (now.getTime() - this.estimate.timestamp.getTime() > HeadingTracker.MAX_HEADING_AGE_MS) {
+      return undefined;
+    }
+
+    return this.estimate;
+  }
+
+  /**
+   * Get the current heading in degrees, or undefined if unknown or stale
+   */
+  getHeading(now: Date = new Date()): number | undefined {
+    return this.getEstimate(now)?.heading;
+  }
+
+  /**
+   * Forget all history, e.g. when navigation restarts
+   */
+  reset(): void {
+    this.recentFixes = [];
+    this.estimate = undefined;
+  }
+
+  private deriveHeading(current: Coordinates): number | undefined {
+    // Walk back to the most recent fix far enough away that GPS noise can't dominate the bearing
+    const minDisplacement = Math.max(HeadingTracker.MIN_DERIVED_DISPLACEMENT, current.accuracy ?? 0);
+
+    for (let i = this.recentFixes.length - 2; i >= 0; i--) {
+      const previous = this.recentFixes[i].location;
+      if (calculateDistance(previous, current) >= minDisplacement) {
+        return calculateBearing(previous, current);
+      }
+    }
+
+    return undefined;
+  }
+
+  private isValidHeading(value: number | undefined): value is number {
+    return typeof value === 'number' && !isNaN(value) && value >= 0 && value <= 360;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Image Workspace
+ * Private directory for one session's image files, so users navigating at the same time never share files
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const DEFAULT_BASE_DIR = path.join(process.cwd(), 'images', 'sessions');
+
+export class ImageWorkspace {
+  private baseDir: string;
+  private dir?: string; // created on first write - most sessions never write a file
+
+  /**
+   * @param baseDir Directory the session directories are created in (default: images/sessions)
+   */
+  constructor(baseDir: string = DEFAULT_BASE_DIR) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Save a file in the workspace, replacing any earlier file of the same name
+   * @param name File name, e.g. "labeled_image.jpg"
+   * @returns Full path of the saved file
+   */
+  writeFile(name: string, data: string | Buffer): string {
+    const filePath = this.getFilePath(name);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  }
+
+  /**
+   * Full path for a file in the workspace, creating the workspace if needed
+   */
+  getFilePath(name: string): string {
+    if (!this.dir) {
+      fs.mkdirSync(this.baseDir, { recursive: true });
+      this.dir = fs.mkdtempSync(path.join(this.baseDir, 'session-'));
+    }
+    return path.join(this.dir, path.basename(name));
+  }
+
+  /**
+   * Delete the workspace and everything in it
+   */
+  dispose(): void {
+    if (!this.dir) return;
+
+    try {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+      console.log(`🧹 Removed image workspace ${this.dir}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not remove image workspace ${this.dir}:`, error);
+    }
+    this.dir = undefined;
+  }
+}
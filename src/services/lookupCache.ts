@@ -0,0 +1,204 @@
+/**
+ * Lookup Cache
+ * Shared, size-bounded cache for geocoding and place search results, with expiry and optional JSON persistence
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface LookupCacheOptions {
+  maxEntries: number; // least recently used entries are evicted beyond this
+  ttlMs: number; // entries older than this are treated as missing
+  filePath?: string; // JSON file to load from and save to; in memory only when unset
+}
+
+export interface LookupCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, 0 before any lookup
+  namespaces: Record<string, { hits: number; misses: number }>;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: LookupCacheOptions = {
+  maxEntries: 1000,
+  ttlMs: 24 * 60 * 60 * 1000 // 1 day
+};
+
+const SAVE_DELAY_MS = 5000; // batch writes - lookups often come in bursts
+
+let defaultCache: LookupCache | undefined;
+
+export class LookupCache {
+  private entries = new Map<string, CacheEntry>(); // in least to most recently used order
+  private options: LookupCacheOptions;
+  private stats = new Map<string, { hits: number; misses: number }>();
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(options: Partial<LookupCacheOptions> = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+    this.load();
+  }
+
+  /**
+   * Look up a cached value
+   * @param namespace Kind of lookup, e.g. 'geocode' - keeps keys apart and statistics separate
+   * @param key Lookup key within the namespace
+   * @returns The value, or undefined when missing or expired
+   */
+  get<T>(namespace: string, key: string, now: number = Date.now()): T | undefined {
+    const cacheKey = `${namespace}:${key}`;
+    const entry = this.entries.get(cacheKey);
+    const counts = this.getNamespaceStats(namespace);
+
+    if (!entry || now - entry.storedAt > this.options.ttlMs) {
+      if (entry) this.entries.delete(cacheKey);
+      counts.misses++;
+      return undefined;
+    }
+
+    // Re-insert so the entry becomes the most recently used
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, entry);
+    counts.hits++;
+    return entry.value as T;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries beyond maxEntries
+   */
+  set(namespace: string, key: string, value: unknown, now: number = Date.now()): void {
+    const cacheKey = `${namespace}:${key}`;
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, { value, storedAt: now });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    this.scheduleSave();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+
+  getStats(): LookupCacheStats {
+    let hits = 0;
+    let misses = 0;
+    const namespaces: LookupCacheStats['namespaces'] = {};
+
+    this.stats.forEach((counts, namespace) => {
+      hits += counts.hits;
+      misses += counts.misses;
+      namespaces[namespace] = { ...counts };
+    });
+
+    return {
+      size: this.entries.size,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      namespaces
+    };
+  }
+
+  /**
+   * Write pending changes to disk now rather than after the save delay
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.save();
+  }
+
+  private getNamespaceStats(namespace: string): { hits: number; misses: number } {
+    let counts = this.stats.get(namespace);
+    if (!counts) {
+      counts = { hits: 0, misses: 0 };
+      this.stats.set(namespace, counts);
+    }
+    return counts;
+  }
+
+  private load(): void {
+    const filePath = this.options.filePath;
+    if (!filePath || !fs.existsSync(filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const now = Date.now();
+      const entries: [string, CacheEntry][] = Array.isArray(stored?.entries) ? stored.entries : [];
+
+      for (const [key, entry] of entries) {
+        if (entry && typeof entry.storedAt === 'number' && now - entry.storedAt <= this.options.ttlMs) {
+          this.entries.set(key, entry);
+        }
+      }
+
+      console.log(`💾 Loaded ${this.entries.size} cached lookups from ${filePath}`);
+    } catch (error) {
+      // A corrupt cache file only costs us the cached lookups
+      console.warn(`⚠️ Could not read lookup cache ${filePath} - starting empty:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.options.filePath || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DELAY_MS);
+    // Never keep the process alive just to write the cache
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    const filePath = this.options.filePath;
+    if (!filePath) return;
+
+    try {
+      // Write then rename, so a crash mid-write never leaves a truncated file
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify({ entries: [...this.entries] }));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      console.warn(`⚠️ Could not save lookup cache ${filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Build a cache from the environment:
+ * LOOKUP_CACHE_FILE - JSON file to persist lookups in (default: memory only)
+ * LOOKUP_CACHE_TTL_MS - how long a lookup stays valid (default: 86400000, one day)
+ * LOOKUP_CACHE_MAX_ENTRIES - entries kept before the least recently used are dropped (default: 1000)
+ */
+export function createLookupCacheFromEnv(): LookupCache {
+  return new LookupCache({
+    filePath: process.env.LOOKUP_CACHE_FILE || undefined,
+    ttlMs: parseInt(process.env.LOOKUP_CACHE_TTL_MS || '', 10) || DEFAULT_CACHE_OPTIONS.ttlMs,
+    maxEntries: parseInt(process.env.LOOKUP_CACHE_MAX_ENTRIES || '', 10) || DEFAULT_CACHE_OPTIONS.maxEntries
+  });
+}
+
+/**
+ * Process-wide cache shared by every MappingService, built from the environment on first use
+ */
+export function getDefaultLookupCache(): LookupCache {
+  if (!defaultCache) {
+    defaultCache = createLookupCacheFromEnv();
+  }
+  return defaultCache;
+}
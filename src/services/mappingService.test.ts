@@ -0,0 +1,71 @@
+import { MappingService } from './mappingService.js';
+import { LookupCache } from './lookupCache.js';
+import { RequestScheduler } from './requestScheduler.js';
+import { RoutingProviderRegistry } from './routing/providerRegistry.js';
+import { PlaceSearchResult } from '../types/navigation.js';
+
+const USER = { lat: 52.5, lng: 13.4 };
+
+// A pharmacy the given number of degrees of latitude north of the user (0.001 is about 111 m)
+function pharmacy(name: string, north: number, openingHours?: PlaceSearchResult['opening_hours']): PlaceSearchResult {
+  return {
+    place_id: name,
+    name,
+    formatted_address: '',
+    geometry: { location: { lat: USER.lat + north, lng: USER.lng } },
+    types: ['pharmacy'],
+    opening_hours: openingHours
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('MappingService.findNearbyPlaces', () => {
+  // No routing providers, so travel times are estimated from straight-line distances
+  function createMappingService(places: PlaceSearchResult[]): MappingService {
+    const mappingService = new MappingService(new RoutingProviderRegistry(), {}, new LookupCache(), new RequestScheduler());
+    jest.spyOn(mappingService, 'searchPlaces').mockResolvedValue(places);
+    return mappingService;
+  }
+
+  const places = [
+    pharmacy('Closed Pharmacy', 0.001, { open_now: false, schedule: 'Mo-Fr 08:00-09:00' }),
+    pharmacy('No Hours Pharmacy', 0.002),
+    pharmacy('Odd Hours Pharmacy', 0.003, { open_now: undefined, schedule: 'sunrise-sunset' }),
+    pharmacy('Open Pharmacy', 0.004, { open_now: true, schedule: '24/7' })
+  ];
+
+  it('lists every place nearest first without the open now filter', async () => {
+    const found = await createMappingService(places).findNearbyPlaces('pharmacy', USER);
+
+    expect(found.map(place => place.name)).toEqual([
+      'Closed Pharmacy',
+      'No Hours Pharmacy',
+      'Odd Hours Pharmacy',
+      'Open Pharmacy'
+    ]);
+  });
+
+  it('drops closed places and lists open ones before those with unknown hours', async () => {
+    const found = await createMappingService(places).findNearbyPlaces('pharmacy', USER, { openNow: true });
+
+    expect(found.map(place => [place.name, place.opening_hours?.open_now])).toEqual([
+      ['Open Pharmacy', true],
+      ['No Hours Pharmacy', undefined],
+      ['Odd Hours Pharmacy', undefined]
+    ]);
+  });
+
+  it('finds nothing when every place is closed', async () => {
+    const found = await createMappingService([places[0]])
+      .findNearbyPlaces('pharmacy', USER, { openNow: true });
+
+    expect(found).toEqual([]);
+  });
+});
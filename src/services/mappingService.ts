@@ -1,7 +1,7 @@
 /**
  * Mapping Service
  * Handles route calculation, geocoding, place search, and traffic data
- * Uses OpenRouteService as the primary mapping provider (free alternative to Google Maps)
+ * Routes come from pluggable routing providers (see ./routing); geocoding uses Nominatim
  */
 
 import axios from 'axios';
@@ -10,34 +10,97 @@ import {
   NavigationRoute,
   DirectionsRequest,
   PlaceSearchResult,
+  PlaceFilters,
   GeocodeResult,
-  TransportationMode,
-  RouteType,
-  RouteStep,
-  NavigationInstruction
+  NavigationInstruction,
+  Surroundings,
+  StreetIntersection,
+  NearbyFeature
 } from '../types/navigation.js';
-import { calculateDistance } from '../utils/distance.js';
-import { cleanInstruction, extractManeuver, extractStreetName } from '../utils/instructions.js';
+import { calculateDistance, projectOntoPolyline } from '../utils/distance.js';
+import { extractManeuver, extractStreetName } from '../utils/instructions.js';
+import { isOpenAt, isValidTimeZone } from '../utils/openingHours.js';
+import { MatrixRequest, RoutingProvider, RoutingRequest, TravelMatrix } from './routing/routingProvider.js';
+import { RoutingProviderRegistry, getDefaultRoutingRegistry, type ProviderHealth } from './routing/providerRegistry.js';
+import { estimateTravelMatrix } from './routing/stopOrder.js';
+import { LookupCache, getDefaultLookupCache, type LookupCacheStats } from './lookupCache.js';
+import { RequestScheduler, getDefaultRequestScheduler, type RequestPriority } from './requestScheduler.js';
 
-// OpenRouteService API (free alternative to Google Maps)
-const ORS_API_BASE = 'https://api.openrouteservice.org';
 const NOMINATIM_API_BASE = 'https://nominatim.openstreetmap.org';
 
-// Backup services
-const MAPBOX_API_BASE = 'https://api.mapbox.com';
+// How well each kind of result suits a walking destination; unlisted types score DEFAULT_TYPE_WEIGHT
+const ADDRESS_TYPE_WEIGHTS: Record<string, number> = {
+  house: 1, building: 1, amenity: 1, shop: 1, tourism: 1, leisure: 1, office: 1, railway: 1,
+  road: 0.9, square: 0.9,
+  neighbourhood: 0.7, quarter: 0.7, suburb: 0.6, hamlet: 0.6, village: 0.5,
+  town: 0.4, city: 0.3, municipality: 0.3, county: 0.1, state: 0.05, country: 0
+};
+const DEFAULT_TYPE_WEIGHT = 0.6;
+const RANKING_DISTANCE_SCALE = 5000; // meters - a result this far away has half the distance score of one next door
+const AMBIGUOUS_SCORE_MARGIN = 0.1; // results scoring within this of the best are read back as choices
+const MAX_GEOCODE_CHOICES = 3;
+const SAME_PLACE_DISTANCE = 300; // meters - results this close together (e.g. pieces of one street) are one choice
+const GEOCODE_CACHE_CELL_DEGREES = 0.05; // ~5 km cells - the same query from a different cell is geocoded afresh
+const DEFAULT_SEARCH_RADIUS = 20000; // meters
+const DEFAULT_PLACE_SEARCH_RADIUS = 5000; // meters
+const DEFAULT_OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
+const SURROUNDINGS_STREET_RADIUS = 150; // meters searched for streets and intersections
+const SURROUNDINGS_PLACE_RADIUS = 75; // meters searched for named places
+const MAX_SURROUNDING_INTERSECTIONS = 5;
+const MAX_SURROUNDING_PLACES = 3;
+
+let mappingServiceCount = 0;
+
+export interface GeocodingOptions {
+  searchRadius: number; // meters around the user that geocoding favors
+  countryCodes?: string[]; // ISO 3166-1 alpha-2 codes results are restricted to, e.g. ['us', 'ca']
+  timeZone?: string; // IANA time zone place opening hours are read in, e.g. 'America/New_York' (default: the server's)
+}
+
+export interface GeocodeResolution {
+  result?: GeocodeResult; // set when one result clearly wins or the user picked one for this query before
+  choices: GeocodeResult[]; // best-ranked results; when result is unset, the close candidates to read back
+}
 
 export class MappingService {
-  private orsApiKey: string | undefined;
-  private mapboxApiKey: string | undefined;
+  private providerRegistry: RoutingProviderRegistry;
+  private geocodingOptions: GeocodingOptions;
   private httpClient: any;
-  private geocodeCache = new Map<string, GeocodeResult[]>();
-  private lastRequestTime = 0;
-  private readonly MIN_REQUEST_INTERVAL = 1500; // 1.5 seconds between requests to be more conservative
-
-  constructor() {
-    // API keys would typically come from environment variables
-    this.orsApiKey = process.env.OPENROUTESERVICE_API_KEY;
-    this.mapboxApiKey = process.env.MAPBOX_API_KEY;
+  private lookupCache: LookupCache;
+  private requestScheduler: RequestScheduler;
+  private requestOwner = `mapping-${++mappingServiceCount}`; // tags this instance's Nominatim requests for cancellation
+  private geocodeChoices = new Map<string, GeocodeResult>(); // results the user picked, by query
+
+  /**
+   * @param providerRegistry Routing providers to use (default: the process-wide registry built from ROUTING_PROVIDERS)
+   * @param geocodingOptions Search radius, country restriction and opening hours time zone
+   *   (default: GEOCODE_SEARCH_RADIUS, GEOCODE_COUNTRY_CODES and PLACES_TIMEZONE)
+   * @param lookupCache Cache for geocoding and place search (default: the process-wide cache built from LOOKUP_CACHE_*)
+   * @param requestScheduler Queue for Nominatim requests (default: the process-wide scheduler, so all sessions share the rate limit)
+   */
+  constructor(
+    providerRegistry: RoutingProviderRegistry = getDefaultRoutingRegistry(),
+    geocodingOptions: Partial<GeocodingOptions> = {},
+    lookupCache: LookupCache = getDefaultLookupCache(),
+    requestScheduler: RequestScheduler = getDefaultRequestScheduler()
+  ) {
+    this.providerRegistry = providerRegistry;
+    this.lookupCache = lookupCache;
+    this.requestScheduler = requestScheduler;
+    this.geocodingOptions = {
+      searchRadius: parseInt(process.env.GEOCODE_SEARCH_RADIUS || '', 10) || DEFAULT_SEARCH_RADIUS,
+      countryCodes: process.env.GEOCODE_COUNTRY_CODES
+        ?.split(',')
+        .map(code => code.trim().toLowerCase())
+        .filter(Boolean),
+      timeZone: process.env.PLACES_TIMEZONE || undefined,
+      ...geocodingOptions
+    };
+
+    if (this.geocodingOptions.timeZone && !isValidTimeZone(this.geocodingOptions.timeZone)) {
+      console.warn(`⚠️ Unknown time zone "${this.geocodingOptions.timeZone}" in PLACES_TIMEZONE - using the server's`);
+      this.geocodingOptions.timeZone = undefined;
+    }
     
     // Configure axios with proper headers for Nominatim
     this.httpClient = axios.create({
@@ -52,354 +115,143 @@ export class MappingService {
   }
 
   /**
-   * Calculate a route between origin and destination
+   * Calculate a route between origin and destination, trying each available provider in order
    */
   async calculateRoute(request: DirectionsRequest): Promise<NavigationRoute | null> {
-    try {
-      console.log('🗺️ Calculating route from', request.origin, 'to', request.destination);
-      
-      // Try Mapbox first (best for navigation)
-      if (this.mapboxApiKey) {
-        try {
-          console.log('🔄 Trying Mapbox Directions API...');
-          return await this.calculateRouteMapbox(request);
-        } catch (mapboxError) {
-          console.warn('⚠️ Mapbox failed, trying OpenRouteService:', mapboxError);
-        }
-      }
-      
-      // Fallback to OpenRouteService
-      if (this.orsApiKey) {
-        try {
-          console.log('🔄 Trying OpenRouteService...');
-          return await this.calculateRouteORS(request);
-        } catch (orsError) {
-          console.warn('⚠️ OpenRouteService failed, using demo route:', orsError);
-        }
-      }
-
-      // Always provide a demo route as final fallback
-      console.log('📍 Using demo route as fallback');
-      return this.generateDemoRoute(request);
-    } catch (error) {
-      console.error('❌ Error calculating route, using demo route:', error);
-      // Always return a demo route rather than null
-      return this.generateDemoRoute(request);
-    }
+    const routes = await this.calculateRoutes({ ...request, alternatives: false });
+    return routes[0] || null;
   }
 
   /**
-   * Calculate route using OpenRouteService
+   * Calculate a route plus alternatives (when request.alternatives is set and the provider supports them)
+   * @returns Routes with the preferred route first, or an empty list if no provider succeeded
    */
-  private async calculateRouteORS(request: DirectionsRequest): Promise<NavigationRoute | null> {
-    const origin = await this.normalizeCoordinates(request.origin);
-    const destination = await this.normalizeCoordinates(request.destination);
+  async calculateRoutes(request: DirectionsRequest): Promise<NavigationRoute[]> {
+    console.log('🗺️ Calculating route from', request.origin, 'to', request.destination);
 
-    if (!origin || !destination) {
-      throw new Error('Invalid origin or destination');
+    const routingRequest = await this.resolveRequest(request);
+    if (!routingRequest) {
+      console.error('❌ Could not resolve route endpoints');
+      return [];
     }
 
-    const profile = this.getORSProfile(request.mode || 'driving');
-    const coordinates = [
-      [origin.lng, origin.lat],
-      ...(request.waypoints || []).map(wp => {
-        const coord = typeof wp === 'string' ? this.parseCoordinateString(wp) : wp;
-        return coord ? [coord.lng, coord.lat] : null;
-      }).filter(Boolean),
-      [destination.lng, destination.lat]
-    ];
-
-    const response = await axios.post(
-      `${ORS_API_BASE}/v2/directions/${profile}`,
-      {
-        coordinates,
-        instructions: true,
-        maneuvers: true,
-        units: 'm',
-        language: 'en'
-      },
-      {
-        headers: {
-          'Authorization': this.orsApiKey,
-          'Content-Type': 'application/json'
-        }
+    const mode = request.mode || 'driving';
+    const providers = this.providerRegistry.getAvailableProviders()
+      .filter(provider => !provider.supportedModes || provider.supportedModes.includes(mode));
+
+    for (const provider of providers) {
+      // Another request may have taken the provider's half-open trial while we were trying earlier providers
+      if (!this.providerRegistry.beginAttempt(provider.id)) continue;
+
+      try {
+        console.log(`🔄 Trying routing provider ${provider.id}...`);
+        const routes = request.alternatives && provider.calculateRoutes
+          ? await provider.calculateRoutes(routingRequest)
+          : [await provider.calculateRoute(routingRequest)];
+        this.providerRegistry.recordSuccess(provider.id);
+        return routes.map(route => this.attachRequestWaypoints(route, routingRequest));
+      } catch (error) {
+        console.warn(`⚠️ Routing provider ${provider.id} failed:`, error);
+        this.providerRegistry.recordFailure(provider.id, error);
       }
-    );
-
-    const route = response.data.routes[0];
-    if (!route) {
-      throw new Error('No route found');
     }
 
-    return this.processORSRoute(route, origin, destination);
+    console.error('❌ No routing provider could calculate a route');
+    return [];
   }
 
   /**
-   * Calculate route using Mapbox Directions API
+   * Travel times between every pair of locations from the first provider that offers a matrix,
+   * falling back to a great-circle estimate so stop ordering always has something to work with
    */
-  private async calculateRouteMapbox(request: DirectionsRequest): Promise<NavigationRoute | null> {
-    const origin = await this.normalizeCoordinates(request.origin);
-    const destination = await this.normalizeCoordinates(request.destination);
-
-    if (!origin || !destination) {
-      throw new Error('Invalid origin or destination');
-    }
-
-    const profile = this.getMapboxProfile(request.mode || 'driving');
-    let coordinates = `${origin.lng},${origin.lat}`;
-    
-    // Add waypoints if provided
-    if (request.waypoints && request.waypoints.length > 0) {
-      for (const waypoint of request.waypoints) {
-        const waypointCoords = await this.normalizeCoordinates(waypoint);
-        if (waypointCoords) {
-          coordinates += `;${waypointCoords.lng},${waypointCoords.lat}`;
-        }
-      }
-    }
-    
-    coordinates += `;${destination.lng},${destination.lat}`;
-
-    // Build comprehensive request parameters following Mapbox docs
-    const params: any = {
-      access_token: this.mapboxApiKey,
-      steps: true, // Get turn-by-turn instructions
-      voice_instructions: true, // Get voice guidance
-      banner_instructions: true, // Get visual guidance
-      geometries: 'geojson',
-      overview: 'full',
-      language: request.language || 'en',
-      voice_units: request.units === 'imperial' ? 'imperial' : 'metric'
-    };
-
-    // Add avoidance preferences
-    if (request.avoid && request.avoid.length > 0) {
-      const excludeMap: Record<string, string> = {
-        'highways': 'motorway',
-        'tolls': 'toll',
-        'ferries': 'ferry'
-      };
-      const excludeValues = request.avoid.map(avoid => excludeMap[avoid]).filter(Boolean);
-      if (excludeValues.length > 0) {
-        params.exclude = excludeValues.join(',');
+  async calculateMatrix(request: MatrixRequest): Promise<TravelMatrix> {
+    const mode = request.mode || 'driving';
+    const providers = this.providerRegistry.getAvailableProviders()
+      .filter(provider => !provider.supportedModes || provider.supportedModes.includes(mode));
+
+    for (const provider of providers) {
+      if (!provider.calculateMatrix || !this.providerRegistry.beginAttempt(provider.id)) continue;
+
+      try {
+        console.log(`🔄 Trying travel matrix from ${provider.id}...`);
+        const matrix = await provider.calculateMatrix(request);
+        this.providerRegistry.recordSuccess(provider.id);
+        return matrix;
+      } catch (error) {
+        console.warn(`⚠️ Travel matrix from ${provider.id} failed:`, error);
+        this.providerRegistry.recordFailure(provider.id, error);
       }
     }
 
-    console.log('🗺️ Making Mapbox Directions API request:', {
-      profile,
-      coordinates,
-      params: { ...params, access_token: '[HIDDEN]' }
-    });
-
-    const response = await axios.get(
-      `${MAPBOX_API_BASE}/directions/v5/mapbox/${profile}/${coordinates}`,
-      { params }
-    );
-
-    const route = response.data.routes[0];
-    if (!route) {
-      throw new Error('No route found');
-    }
-
-    console.log('✅ Mapbox route calculated successfully:', {
-      distance: route.distance,
-      duration: route.duration,
-      legs: route.legs?.length || 0,
-      steps: route.legs.reduce((total: number, leg: any) => total + (leg.steps?.length || 0), 0)
-    });
-
-    // Debug: Log first few steps to see what we're getting
-    if (route.legs && route.legs[0] && route.legs[0].steps) {
-      console.log('🔍 First 3 Mapbox steps:');
-      route.legs[0].steps.slice(0, 3).forEach((step: any, i: number) => {
-        console.log(`  Step ${i + 1}:`, {
-          instruction: step.maneuver?.instruction,
-          name: step.name,
-          distance: step.distance,
-          duration: step.duration
-        });
-      });
-    }
-
-    return this.processMapboxRoute(route, origin, destination);
+    console.log('📐 No provider matrix available - estimating travel times from straight-line distances');
+    return estimateTravelMatrix(request.locations, mode);
   }
 
   /**
-   * Process Mapbox route response
+   * Add a routing provider to the fallback chain
+   * @param provider Provider to add - replaces any provider with the same id
+   * @param position Index in the chain (default: last)
    */
-  private processMapboxRoute(route: any, origin: Coordinates, destination: Coordinates): NavigationRoute {
-    const routeId = `route_${Date.now()}`;
-    
-    return {
-      id: routeId,
-      startLocation: {
-        ...origin,
-        type: 'start'
-      },
-      endLocation: {
-        ...destination,
-        type: 'destination'
-      },
-      waypoints: [],
-      overview_polyline: route.geometry,
-      distance: {
-        text: `${(route.distance / 1000).toFixed(1)} km`,
-        value: route.distance
-      },
-      duration: {
-        text: this.formatDuration(route.duration),
-        value: route.duration
-      },
-      legs: route.legs?.map((leg: any) => this.processMapboxLeg(leg)) || [],
-      warnings: route.warnings || []
-    };
+  registerProvider(provider: RoutingProvider, position?: number): void {
+    this.providerRegistry.register(provider, position);
   }
 
   /**
-   * Process Mapbox route leg
+   * Hit and miss counts for the geocoding and place search cache
    */
-  private processMapboxLeg(leg: any): any {
-    return {
-      distance: {
-        text: `${(leg.distance / 1000).toFixed(1)} km`,
-        value: leg.distance
-      },
-      duration: {
-        text: this.formatDuration(leg.duration),
-        value: leg.duration
-      },
-      startLocation: { lat: 0, lng: 0 }, // Would be extracted from geometry
-      endLocation: { lat: 0, lng: 0 },
-      startAddress: '',
-      endAddress: '',
-      steps: leg.steps?.map((step: any) => this.processMapboxStep(step)) || []
-    };
+  getLookupCacheStats(): LookupCacheStats {
+    return this.lookupCache.getStats();
   }
 
   /**
-   * Process Mapbox step into RouteStep with detailed instructions
+   * Drop this service's queued and running Nominatim requests, e.g. when the session ends.
+   * Requests another session is also waiting on still complete for it.
    */
-  private processMapboxStep(step: any): RouteStep {
-    const instruction = cleanInstruction(step.maneuver?.instruction || '');
-    
-    // Extract coordinates from geometry if available
-    const startLocation = step.geometry?.coordinates?.[0] 
-      ? { lat: step.geometry.coordinates[0][1], lng: step.geometry.coordinates[0][0] }
-      : { lat: 0, lng: 0 };
-    
-    const endLocation = step.geometry?.coordinates?.length > 1
-      ? { 
-          lat: step.geometry.coordinates[step.geometry.coordinates.length - 1][1], 
-          lng: step.geometry.coordinates[step.geometry.coordinates.length - 1][0] 
-        }
-      : startLocation;
-
-    return {
-      distance: {
-        text: step.distance > 1000 
-          ? `${(step.distance / 1000).toFixed(1)} km`
-          : `${Math.round(step.distance)} m`,
-        value: step.distance
-      },
-      duration: {
-        text: this.formatDuration(step.duration),
-        value: step.duration
-      },
-      startLocation,
-      endLocation,
-      instructions: instruction,
-      maneuver: step.maneuver?.type || 'continue',
-      polyline: {
-        points: JSON.stringify(step.geometry) || ''
-      },
-      travel_mode: 'DRIVING',
-      // Store additional Mapbox data for enhanced navigation
-      voice_instructions: step.voiceInstructions || [],
-      banner_instructions: step.bannerInstructions || [],
-      modifier: step.maneuver?.modifier,
-      street_name: step.name,
-      reference: step.ref,
-      destinations: step.destinations,
-      exits: step.exits
-    };
+  cancelPendingRequests(): void {
+    this.requestScheduler.cancelOwner(this.requestOwner);
   }
 
   /**
-   * Process OpenRouteService route response
+   * Health of each routing provider, in fallback order
    */
-  private processORSRoute(route: any, origin: Coordinates, destination: Coordinates): NavigationRoute {
-    const routeId = `route_${Date.now()}`;
-    
-    return {
-      id: routeId,
-      startLocation: {
-        ...origin,
-        type: 'start'
-      },
-      endLocation: {
-        ...destination,
-        type: 'destination'
-      },
-      waypoints: [],
-      overview_polyline: route.geometry,
-      distance: {
-        text: `${(route.summary.distance / 1000).toFixed(1)} km`,
-        value: route.summary.distance
-      },
-      duration: {
-        text: this.formatDuration(route.summary.duration),
-        value: route.summary.duration
-      },
-      legs: route.segments?.map((segment: any) => this.processORSSegment(segment)) || [],
-      warnings: route.warnings || []
-    };
+  getProviderHealth(): ProviderHealth[] {
+    return this.providerRegistry.getHealth();
   }
 
   /**
-   * Process OpenRouteService route segment
+   * Resolve every location in a request to coordinates so providers never need to geocode
    */
-  private processORSSegment(segment: any): any {
-    return {
-      distance: {
-        text: `${(segment.distance / 1000).toFixed(1)} km`,
-        value: segment.distance
-      },
-      duration: {
-        text: this.formatDuration(segment.duration),
-        value: segment.duration
-      },
-      startLocation: { lat: 0, lng: 0 }, // Would be extracted from geometry
-      endLocation: { lat: 0, lng: 0 },
-      startAddress: '',
-      endAddress: '',
-      steps: segment.steps?.map((step: any) => this.processORSStep(step)) || []
-    };
+  private async resolveRequest(request: DirectionsRequest): Promise<RoutingRequest | null> {
+    const origin = await this.normalizeCoordinates(request.origin);
+    // Rank addresses by distance from the origin so "Main Street" means the nearby one
+    const destination = await this.normalizeCoordinates(request.destination, origin || undefined);
+
+    if (!origin || !destination) {
+      return null;
+    }
+
+    const waypoints: Coordinates[] = [];
+    for (const waypoint of request.waypoints || []) {
+      const coords = await this.normalizeCoordinates(waypoint, origin);
+      if (coords) {
+        waypoints.push(coords);
+      }
+    }
+
+    return { ...request, origin, destination, waypoints };
   }
 
   /**
-   * Process OpenRouteService step into RouteStep
+   * Record the requested waypoints on the route so later recalculations can carry them over
    */
-  private processORSStep(step: any): RouteStep {
-    const instruction = cleanInstruction(step.instruction);
-    
-    return {
-      distance: {
-        text: `${step.distance} m`,
-        value: step.distance
-      },
-      duration: {
-        text: this.formatDuration(step.duration),
-        value: step.duration
-      },
-      startLocation: { lat: 0, lng: 0 }, // Would be extracted from way_points
-      endLocation: { lat: 0, lng: 0 },
-      instructions: instruction,
-      maneuver: this.mapORSManeuver(step.type),
-      polyline: {
-        points: '' // Would be extracted from geometry
-      },
-      travel_mode: 'DRIVING'
-    };
+  private attachRequestWaypoints(route: NavigationRoute, request: RoutingRequest): NavigationRoute {
+    if (route.waypoints.length > 0 || request.waypoints.length === 0) {
+      return route;
+    }
+
+    route.waypoints = request.waypoints.map(wp => ({ lat: wp.lat, lng: wp.lng, type: 'waypoint' as const }));
+
+    return route;
   }
 
   /**
@@ -410,6 +262,14 @@ export class MappingService {
     location?: Coordinates,
     radius?: number
   ): Promise<PlaceSearchResult[]> {
+    const cacheKey = `${this.getAreaCacheKey(query, location)}|${radius || DEFAULT_PLACE_SEARCH_RADIUS}`;
+    const cached = this.lookupCache.get<PlaceSearchResult[]>('search', cacheKey);
+    if (cached) {
+      console.log('🎯 Using cached place search for:', query);
+      // Cached from elsewhere in the same cell and at another time, so distances and open now are worked out again
+      return this.sortByDistance(cached.map(place => this.refreshPlace(place, location)));
+    }
+
     try {
       console.log('🔍 Searching for places:', query);
       // Use Nominatim (OpenStreetMap) for free place search
@@ -418,20 +278,22 @@ export class MappingService {
         format: 'json',
         limit: 10,
         addressdetails: 1,
-        extratags: 1
+        extratags: 1,
+        ...this.getCountryParams()
       };
 
       if (location) {
         params.lat = location.lat;
         params.lon = location.lng;
         params.bounded = 1;
-        params.viewbox = this.createViewbox(location, radius || 5000);
+        params.viewbox = this.createViewbox(location, radius || DEFAULT_PLACE_SEARCH_RADIUS);
       }
 
-      const response = await this.makeRateLimitedRequest(`${NOMINATIM_API_BASE}/search`, params);
-      const places = response.data.map((place: any) => this.processNominatimPlace(place, location));
+      const response = await this.scheduleRequest(`${NOMINATIM_API_BASE}/search`, params, 'search');
+      const places: PlaceSearchResult[] = response.data.map((place: any) => this.processNominatimPlace(place));
       console.log('✅ Found', places.length, 'places for query:', query);
-      return places;
+      this.lookupCache.set('search', cacheKey, places);
+      return this.sortByDistance(places.map(place => this.refreshPlace(place, location)));
     } catch (error) {
       console.error('❌ Error searching places:', error);
       return [];
@@ -439,26 +301,80 @@ export class MappingService {
   }
 
   /**
-   * Geocode an address to coordinates
+   * Search for places near a location, filtered and sorted by distance along streets
+   * @param query What to look for, e.g. "coffee"
+   * @param location Where the user is
+   * @param filters Open now, category and how distances are measured. Open now drops places known to be closed
+   *   and lists places known to be open before those whose hours are unknown
    */
-  async geocode(address: string): Promise<GeocodeResult[]> {
-    // Check cache first
-    const cacheKey = address.toLowerCase().trim();
-    if (this.geocodeCache.has(cacheKey)) {
+  async findNearbyPlaces(query: string, location: Coordinates, filters: PlaceFilters = {}): Promise<PlaceSearchResult[]> {
+    const category = filters.category ? this.normalizeCategory(filters.category) : undefined;
+    const places = (await this.searchPlaces(query, location)).filter(place =>
+      (!filters.openNow || place.opening_hours?.open_now !== false) &&
+      (!category || place.types.some(type => this.normalizeCategory(type) === category))
+    );
+    if (places.length === 0) {
+      return places;
+    }
+
+    // Straight-line order can be far off where rivers, rail lines or blocks are in the way
+    const matrix = await this.calculateMatrix({
+      locations: [location, ...places.map(place => place.geometry.location)],
+      mode: filters.mode || 'walking',
+      pedestrian: filters.pedestrian
+    });
+
+    return places
+      .map((place, i) => ({
+        ...place,
+        travel_distance: matrix.distances[0][i + 1],
+        travel_duration: matrix.durations[0][i + 1]
+      }))
+      .filter(place => Number.isFinite(place.travel_duration))
+      .sort((a, b) => (filters.openNow ? this.openRank(a) - this.openRank(b) : 0) || a.travel_duration - b.travel_duration);
+  }
+
+  /**
+   * Places known to be open sort ahead of places whose hours are unknown
+   */
+  private openRank(place: PlaceSearchResult): number {
+    return place.opening_hours?.open_now === true ? 0 : 1;
+  }
+
+  /**
+   * Geocode an address, best match first
+   * @param address Address or place name
+   * @param near Location to rank results against - nearby results and specific places rank higher
+   */
+  async geocode(address: string, near?: Coordinates): Promise<GeocodeResult[]> {
+    // Check cache first - keyed by area too, so "Starbucks" is looked up again somewhere else
+    const cacheKey = this.getAreaCacheKey(address, near);
+    const cached = this.lookupCache.get<GeocodeResult[]>('geocode', cacheKey);
+    if (cached) {
       console.log('🎯 Using cached geocode result for:', address);
-      return this.geocodeCache.get(cacheKey)!;
+      return this.rankGeocodeResults(cached, near);
     }
 
     try {
       console.log('🔍 Geocoding address:', address);
-      const response = await this.makeRateLimitedRequest(`${NOMINATIM_API_BASE}/search`, {
+      const params: any = {
         q: address,
         format: 'json',
         limit: 5,
-        addressdetails: 1
-      });
+        addressdetails: 1,
+        ...this.getCountryParams()
+      };
 
-      const results = response.data.map((result: any) => ({
+      // Favor results around the user without excluding farther matches; ranking then prefers the nearest
+      if (near) {
+        params.viewbox = this.createViewbox(near, this.geocodingOptions.searchRadius);
+        params.bounded = 0;
+      }
+
+      // Destinations gate starting or rerouting a trip, so they go ahead of place searches
+      const response = await this.scheduleRequest(`${NOMINATIM_API_BASE}/search`, params, 'navigation');
+
+      const results: GeocodeResult[] = response.data.map((result: any) => ({
         formatted_address: result.display_name,
         geometry: {
           location: {
@@ -468,34 +384,86 @@ export class MappingService {
           location_type: result.type
         },
         place_id: result.place_id,
-        types: result.type ? [result.type] : []
+        types: result.type ? [result.type] : [],
+        name: result.name || result.display_name.split(',')[0],
+        address_type: result.addresstype,
+        importance: typeof result.importance === 'number' ? result.importance : undefined
       }));
 
       // Cache the results
-      this.geocodeCache.set(cacheKey, results);
+      this.lookupCache.set('geocode', cacheKey, results);
       console.log('✅ Geocoded successfully:', results.length, 'results');
-      return results;
+      return this.rankGeocodeResults(results, near);
     } catch (error) {
       console.error('❌ Error geocoding address:', error);
       return [];
     }
   }
 
+  /**
+   * Geocode an address, deciding whether the best result is clear enough to use without asking
+   * @param address Address or place name
+   * @param near Location to rank results against
+   */
+  async resolveAddress(address: string, near?: Coordinates): Promise<GeocodeResolution> {
+    // A choice made elsewhere (e.g. "Main Street" in another town) doesn't apply here
+    const remembered = this.geocodeChoices.get(address.toLowerCase().trim());
+    const rememberedNearby = remembered && (!near
+      || calculateDistance(near, remembered.geometry.location) <= this.geocodingOptions.searchRadius);
+    if (remembered && rememberedNearby) {
+      console.log('🎯 Using remembered choice for:', address);
+      return { result: remembered, choices: [remembered] };
+    }
+
+    const results = await this.geocode(address, near);
+    const [best] = results;
+    const close: GeocodeResult[] = [];
+    for (const result of results) {
+      const closeScore = (best?.score ?? 0) - (result.score ?? 0) <= AMBIGUOUS_SCORE_MARGIN;
+      const samePlace = close.some(choice =>
+        calculateDistance(choice.geometry.location, result.geometry.location) <= SAME_PLACE_DISTANCE);
+      if (closeScore && !samePlace && close.length < MAX_GEOCODE_CHOICES) {
+        close.push(result);
+      }
+    }
+
+    return close.length > 1
+      ? { choices: close }
+      : { result: best, choices: results.slice(0, MAX_GEOCODE_CHOICES) };
+  }
+
+  /**
+   * Remember which result the user picked for a query, so later lookups skip the question
+   */
+  rememberGeocodeChoice(address: string, result: GeocodeResult): void {
+    this.geocodeChoices.set(address.toLowerCase().trim(), result);
+  }
+
   /**
    * Reverse geocode coordinates to an address
    */
   async reverseGeocode(coordinates: Coordinates): Promise<string | null> {
+    // ~11 m precision - fixes a few meters apart share an address
+    const cacheKey = `${coordinates.lat.toFixed(4)},${coordinates.lng.toFixed(4)}`;
+    const cached = this.lookupCache.get<string>('reverse', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
     try {
       console.log('🔄 Reverse geocoding coordinates:', coordinates);
-      const response = await this.makeRateLimitedRequest(`${NOMINATIM_API_BASE}/reverse`, {
+      const response = await this.scheduleRequest(`${NOMINATIM_API_BASE}/reverse`, {
         lat: coordinates.lat,
         lon: coordinates.lng,
         format: 'json',
         addressdetails: 1
-      });
+      }, 'search');
 
       const address = response.data.display_name || null;
       console.log('✅ Reverse geocoded to:', address);
+      if (address) {
+        this.lookupCache.set('reverse', cacheKey, address);
+      }
       return address;
     } catch (error) {
       console.error('❌ Error reverse geocoding:', error);
@@ -503,6 +471,40 @@ export class MappingService {
     }
   }
 
+  /**
+   * Describe what is around a location: its address, the street it is on, the nearest intersections and
+   * named places. Streets and places come from OpenStreetMap through Overpass (OVERPASS_API_URL).
+   * @returns Surroundings with distances from the location, nearest first; empty lists when lookups fail
+   */
+  async getSurroundings(location: Coordinates): Promise<Surroundings> {
+    // ~11 m precision, like reverse geocoding - distances are recomputed from the exact location below
+    const cacheKey = `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`;
+    let surroundings = this.lookupCache.get<Surroundings>('surroundings', cacheKey);
+
+    if (!surroundings) {
+      const [address, nearby] = await Promise.all([
+        this.reverseGeocode(location),
+        this.queryNearbyStreetsAndPlaces(location)
+      ]);
+
+      surroundings = { address: address ? this.shortenAddress(address) : undefined, ...nearby };
+      // Don't remember a failed lookup
+      if (address || nearby.street) {
+        this.lookupCache.set('surroundings', cacheKey, surroundings);
+      }
+    }
+
+    const byDistance = <T extends { location: Coordinates; distance?: number }>(items: T[]): T[] => items
+      .map(item => ({ ...item, distance: calculateDistance(location, item.location) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    return {
+      ...surroundings,
+      intersections: byDistance(surroundings.intersections).slice(0, MAX_SURROUNDING_INTERSECTIONS),
+      places: byDistance(surroundings.places).slice(0, MAX_SURROUNDING_PLACES)
+    };
+  }
+
   /**
    * Generate enhanced navigation instructions from route steps with Mapbox data
    */
@@ -601,7 +603,7 @@ export class MappingService {
   /**
    * Helper methods
    */
-  private async normalizeCoordinates(location: string | Coordinates): Promise<Coordinates | null> {
+  private async normalizeCoordinates(location: string | Coordinates, near?: Coordinates): Promise<Coordinates | null> {
     if (typeof location === 'object') {
       return location;
     }
@@ -615,17 +617,54 @@ export class MappingService {
 
     // Otherwise geocode the address
     console.log('🔍 Need to geocode address:', location);
-    const results = await this.geocode(location);
+    // No one to ask here, so an ambiguous address takes the best-ranked result
+    const { result } = await this.resolveAddress(location, near);
     
-    if (results.length > 0) {
+    if (result) {
       console.log('✅ Successfully normalized coordinates for:', location);
-      return results[0].geometry.location;
+      return result.geometry.location;
     } else {
       console.warn('⚠️ Could not normalize coordinates for:', location);
       return null;
     }
   }
 
+  /**
+   * Order results by a score mixing distance from the user, how specific the place is, and Nominatim importance
+   */
+  private rankGeocodeResults(results: GeocodeResult[], near?: Coordinates): GeocodeResult[] {
+    return results
+      .map(result => {
+        const typeWeight = ADDRESS_TYPE_WEIGHTS[result.address_type || result.geometry.location_type] ?? DEFAULT_TYPE_WEIGHT;
+        const importance = result.importance ?? 0;
+
+        if (!near) {
+          return { ...result, score: 0.6 * importance + 0.4 * typeWeight };
+        }
+
+        const distance = calculateDistance(near, result.geometry.location);
+        const distanceScore = 1 / (1 + distance / RANKING_DISTANCE_SCALE);
+        return { ...result, distance, score: 0.6 * distanceScore + 0.3 * typeWeight + 0.1 * importance };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private getAreaCacheKey(address: string, near?: Coordinates): string {
+    const query = address.toLowerCase().trim();
+    if (!near) {
+      return `${query}|anywhere`;
+    }
+
+    const row = Math.floor(near.lat / GEOCODE_CACHE_CELL_DEGREES);
+    const col = Math.floor(near.lng / GEOCODE_CACHE_CELL_DEGREES);
+    return `${query}|${row}:${col}`;
+  }
+
+  private getCountryParams(): { countrycodes?: string } {
+    const codes = this.geocodingOptions.countryCodes;
+    return codes && codes.length > 0 ? { countrycodes: codes.join(',') } : {};
+  }
+
   private parseCoordinateString(coordString: string): Coordinates | null {
     const parts = coordString.split(',');
     if (parts.length !== 2) return null;
@@ -637,45 +676,123 @@ export class MappingService {
     return { lat, lng };
   }
 
-  private getORSProfile(mode: TransportationMode): string {
-    switch (mode) {
-      case 'walking': return 'foot-walking';
-      case 'cycling': return 'cycling-regular';
-      case 'driving': return 'driving-car';
-      default: return 'driving-car';
+  /**
+   * Find the street a location is on, the intersections around it and named places nearby in one Overpass query
+   */
+  private async queryNearbyStreetsAndPlaces(
+    location: Coordinates
+  ): Promise<Pick<Surroundings, 'street' | 'intersections' | 'places'>> {
+    const around = (radius: number) => `(around:${radius},${location.lat},${location.lng})`;
+    const query = [
+      '[out:json][timeout:10];',
+      `way${around(SURROUNDINGS_STREET_RADIUS)}[highway][name];`,
+      'out geom;',
+      `nwr${around(SURROUNDINGS_PLACE_RADIUS)}[name][~"^(amenity|shop|tourism)$"~"."];`,
+      'out center 20;'
+    ].join('');
+
+    try {
+      // The user is waiting and may be disoriented, so this goes ahead of place searches
+      const response = await this.requestScheduler.request({
+        url: process.env.OVERPASS_API_URL || DEFAULT_OVERPASS_API_URL,
+        params: { data: query },
+        priority: 'navigation',
+        owner: this.requestOwner,
+        client: this.httpClient
+      });
+      const elements: any[] = Array.isArray(response.data?.elements) ? response.data.elements : [];
+      const streets = elements.filter(element => element.type === 'way' && element.tags?.highway && Array.isArray(element.geometry));
+
+      return {
+        street: this.findNearestStreet(location, streets),
+        intersections: this.findIntersections(streets),
+        places: elements
+          .filter(element => !element.tags?.highway)
+          .map(element => this.processOverpassPlace(element))
+          .filter((place): place is NearbyFeature => !!place)
+      };
+    } catch (error) {
+      console.error('❌ Error looking up nearby streets:', error);
+      return { intersections: [], places: [] };
     }
   }
 
-  private getMapboxProfile(mode: TransportationMode): string {
-    switch (mode) {
-      case 'walking': return 'walking';
-      case 'cycling': return 'cycling';
-      case 'driving': return 'driving';
-      default: return 'driving';
+  private findNearestStreet(location: Coordinates, streets: any[]): string | undefined {
+    let nearest: { name: string; distance: number } | undefined;
+
+    for (const street of streets) {
+      const line: Coordinates[] = street.geometry.map((point: any) => ({ lat: point.lat, lng: point.lon }));
+      const projection = projectOntoPolyline(location, line);
+      if (projection && (!nearest || projection.distance < nearest.distance)) {
+        nearest = { name: street.tags.name, distance: projection.distance };
+      }
     }
+
+    return nearest?.name;
   }
 
-  private mapORSManeuver(orsType: number): string {
-    // Map ORS maneuver types to our standard types
-    const maneuverMap: Record<number, string> = {
-      0: 'continue',
-      1: 'turn-right',
-      2: 'turn-left',
-      3: 'turn-sharp-right',
-      4: 'turn-sharp-left',
-      5: 'turn-slight-right',
-      6: 'turn-slight-left',
-      7: 'continue',
-      8: 'uturn-left',
-      9: 'arrive',
-      10: 'arrive-left',
-      11: 'arrive-right'
+  /**
+   * Intersections are OSM nodes shared by differently named streets
+   */
+  private findIntersections(streets: any[]): StreetIntersection[] {
+    const nodes = new Map<number, { names: Set<string>; location: Coordinates }>();
+
+    for (const street of streets) {
+      const nodeIds: number[] = Array.isArray(street.nodes) ? street.nodes : [];
+      nodeIds.forEach((nodeId, i) => {
+        const point = street.geometry[i];
+        if (!point) return;
+
+        let node = nodes.get(nodeId);
+        if (!node) {
+          node = { names: new Set(), location: { lat: point.lat, lng: point.lon } };
+          nodes.set(nodeId, node);
+        }
+        node.names.add(street.tags.name);
+      });
+    }
+
+    // Divided roads meet a cross street at several nodes - keep one per set of street names
+    const intersections = new Map<string, StreetIntersection>();
+    nodes.forEach(node => {
+      if (node.names.size < 2) return;
+      const streetNames = [...node.names].sort();
+      const key = streetNames.join('|');
+      if (!intersections.has(key)) {
+        intersections.set(key, { streets: streetNames, location: node.location });
+      }
+    });
+
+    return [...intersections.values()];
+  }
+
+  private processOverpassPlace(element: any): NearbyFeature | undefined {
+    const lat = element.lat ?? element.center?.lat;
+    const lng = element.lon ?? element.center?.lon;
+    if (typeof lat !== 'number' || typeof lng !== 'number') return undefined;
+
+    const tags = element.tags || {};
+    return {
+      name: tags.name,
+      type: tags.amenity || tags.shop || tags.tourism,
+      location: { lat, lng }
     };
+  }
 
-    return maneuverMap[orsType] || 'continue';
+  /**
+   * Keep the street address and the next part (usually neighborhood or town) of a Nominatim display name -
+   * the rest is too long to speak
+   */
+  private shortenAddress(displayName: string): string {
+    const parts = displayName.split(',').map(part => part.trim());
+    // "120, Main Street, ..." reads as "120 Main Street"
+    if (parts.length > 1 && /^\d+\w?$/.test(parts[0])) {
+      parts.splice(0, 2, `${parts[0]} ${parts[1]}`);
+    }
+    return parts.slice(0, 2).join(', ');
   }
 
-  private processNominatimPlace(place: any, userLocation?: Coordinates): PlaceSearchResult {
+  private processNominatimPlace(place: any): PlaceSearchResult {
     const location = {
       lat: parseFloat(place.lat),
       lng: parseFloat(place.lon)
@@ -683,19 +800,47 @@ export class MappingService {
 
     const result: PlaceSearchResult = {
       place_id: place.place_id,
-      name: place.display_name.split(',')[0],
+      name: place.name || place.display_name.split(',')[0],
       formatted_address: place.display_name,
       geometry: { location },
-      types: place.type ? [place.type] : []
+      // Type then class, e.g. ["cafe", "amenity"], so either can be used as a category
+      types: [place.type, place.class].filter(Boolean)
     };
 
-    if (userLocation) {
-      result.distance = calculateDistance(userLocation, location);
+    if (place.extratags?.opening_hours) {
+      result.opening_hours = { schedule: place.extratags.opening_hours };
     }
 
     return result;
   }
 
+  /**
+   * Measure the distance from the user and check whether the place is open right now
+   */
+  private refreshPlace(place: PlaceSearchResult, userLocation?: Coordinates): PlaceSearchResult {
+    const refreshed = { ...place };
+
+    if (userLocation) {
+      refreshed.distance = calculateDistance(userLocation, place.geometry.location);
+    }
+    if (place.opening_hours) {
+      refreshed.opening_hours = { ...place.opening_hours, open_now: isOpenAt(place.opening_hours.schedule, new Date(), this.geocodingOptions.timeZone) };
+    }
+
+    return refreshed;
+  }
+
+  private sortByDistance(places: PlaceSearchResult[]): PlaceSearchResult[] {
+    return places.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  }
+
+  /**
+   * "Coffee Shops" and "coffee_shop" name the same category
+   */
+  private normalizeCategory(category: string): string {
+    return category.trim().toLowerCase().replace(/[\s-]+/g, '_').replace(/s$/, '');
+  }
+
   private createViewbox(center: Coordinates, radiusMeters: number): string {
     // Rough conversion of meters to degrees (varies by latitude)
     const degreeRadius = radiusMeters / 111320;
@@ -708,132 +853,16 @@ export class MappingService {
     return `${minLng},${maxLat},${maxLng},${minLat}`;
   }
 
-  private formatDuration(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    } else {
-      return `${minutes}m`;
-    }
-  }
-
   /**
-   * Generate a demo route for testing when no API keys are available
+   * Queue a Nominatim request on the shared scheduler, which spaces requests for the whole process
    */
-  private generateDemoRoute(request: DirectionsRequest): NavigationRoute {
-    console.log('🎭 Generating demo route');
-    
-    // Use provided coordinates or fallback to San Francisco area
-    const origin = typeof request.origin === 'object' 
-      ? request.origin 
-      : { lat: 37.7749, lng: -122.4194 }; // San Francisco
-    
-    let destination: Coordinates;
-    let destinationName = 'Demo Destination';
-    
-    if (typeof request.destination === 'object') {
-      destination = request.destination;
-    } else if (typeof request.destination === 'string') {
-      // Try to create a plausible destination based on the string
-      destinationName = request.destination;
-      // Generate a destination ~1-2km away from origin
-      const offsetLat = (Math.random() - 0.5) * 0.02; // ~2km range
-      const offsetLng = (Math.random() - 0.5) * 0.02;
-      destination = {
-        lat: origin.lat + offsetLat,
-        lng: origin.lng + offsetLng
-      };
-    } else {
-      destination = { lat: 37.7849, lng: -122.4094 }; // 1km northeast of SF
-    }
-
-    const distance = calculateDistance(origin, destination);
-    const durationSeconds = Math.max(300, distance / 1000 * 180); // minimum 5 minutes
-    const durationText = this.formatDuration(durationSeconds);
-
-    return {
-      id: `demo_route_${Date.now()}`,
-      startLocation: { ...origin, type: 'start' },
-      endLocation: { ...destination, type: 'destination' },
-      waypoints: [],
-      overview_polyline: 'demo_polyline',
-      distance: {
-        text: `${(distance / 1000).toFixed(1)} km`,
-        value: distance
-      },
-      duration: {
-        text: durationText,
-        value: durationSeconds
-      },
-      legs: [{
-        distance: {
-          text: `${(distance / 1000).toFixed(1)} km`,
-          value: distance
-        },
-        duration: {
-          text: durationText,
-          value: durationSeconds
-        },
-        startLocation: origin,
-        endLocation: destination,
-        startAddress: 'Current Location',
-        endAddress: destinationName,
-        steps: [
-          {
-            distance: { text: `${Math.round(distance * 0.3)} m`, value: distance * 0.3 },
-            duration: { text: this.formatDuration(durationSeconds * 0.3), value: durationSeconds * 0.3 },
-            startLocation: origin,
-            endLocation: { lat: origin.lat + (destination.lat - origin.lat) * 0.3, lng: origin.lng + (destination.lng - origin.lng) * 0.3 },
-            instructions: `Head northeast on Main Street toward ${destinationName}`,
-            maneuver: 'depart',
-            polyline: { points: 'demo_polyline_1' },
-            travel_mode: 'DRIVING' as const,
-            street_name: 'Main Street'
-          },
-          {
-            distance: { text: `${Math.round(distance * 0.4)} m`, value: distance * 0.4 },
-            duration: { text: this.formatDuration(durationSeconds * 0.4), value: durationSeconds * 0.4 },
-            startLocation: { lat: origin.lat + (destination.lat - origin.lat) * 0.3, lng: origin.lng + (destination.lng - origin.lng) * 0.3 },
-            endLocation: { lat: origin.lat + (destination.lat - origin.lat) * 0.7, lng: origin.lng + (destination.lng - origin.lng) * 0.7 },
-            instructions: `Turn right onto Oak Avenue`,
-            maneuver: 'turn',
-            modifier: 'right',
-            polyline: { points: 'demo_polyline_2' },
-            travel_mode: 'DRIVING' as const,
-            street_name: 'Oak Avenue'
-          },
-          {
-            distance: { text: `${Math.round(distance * 0.3)} m`, value: distance * 0.3 },
-            duration: { text: this.formatDuration(durationSeconds * 0.3), value: durationSeconds * 0.3 },
-            startLocation: { lat: origin.lat + (destination.lat - origin.lat) * 0.7, lng: origin.lng + (destination.lng - origin.lng) * 0.7 },
-            endLocation: destination,
-            instructions: `Continue straight to arrive at ${destinationName}`,
-            maneuver: 'arrive',
-            polyline: { points: 'demo_polyline_3' },
-            travel_mode: 'DRIVING' as const,
-            street_name: 'Oak Avenue'
-          }
-        ]
-      }],
-      warnings: [
-        'Demo route - External mapping services are currently unavailable',
-        'This provides basic navigation functionality for testing'
-      ]
-    };
-  }
-
-  // Add rate limiting method
-  private async makeRateLimitedRequest(url: string, params: any): Promise<any> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
-      await new Promise(resolve => setTimeout(resolve, this.MIN_REQUEST_INTERVAL - timeSinceLastRequest));
-    }
-    
-    this.lastRequestTime = Date.now();
-    return this.httpClient.get(url, { params });
+  private scheduleRequest(url: string, params: Record<string, unknown>, priority: RequestPriority): Promise<any> {
+    return this.requestScheduler.request({
+      url,
+      params,
+      priority,
+      owner: this.requestOwner,
+      client: this.httpClient
+    });
   }
 } 
\ No newline at end of file
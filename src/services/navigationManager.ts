@@ -9,41 +9,108 @@ import {
   NavigationRoute,
   NavigationInstruction,
   Coordinates,
+  GeocodeResult,
   NavigationSettings,
   NavigationEvent,
   NavigationEventType,
   NavigationUpdate,
+  PedestrianPreferences,
+  PlaceFilters,
+  PlaceSearchResult,
+  RoutePoint,
+  StopTimeWindow,
+  TransportationMode,
+  TripOptions,
   Waypoint
 } from '../types/navigation.js';
 import { MappingService } from './mappingService.js';
-import { StreetViewService } from './streetViewService.js';
+import { StreetViewService, toHeadingBucket } from './streetViewService.js';
 import { GeminiService, type StoreSignDetection } from './geminiService.js';
-import { calculateDistance, isWithinRadius, formatDistance, formatDuration, calculateBearing, getDirectionalArrow } from '../utils/distance.js';
+import { ImageWorkspace } from './imageWorkspace.js';
+import { createSceneSourceChainFromEnv, SceneSourceChain } from './scene/sceneSourceChain.js';
+import { RouteTracker } from './routeTracker.js';
+import { HeadingTracker } from './headingTracker.js';
+import { SpeechQueue, type SpeechOptions } from './speechQueue.js';
+import { optimizeStopOrder } from './routing/stopOrder.js';
+import {
+  calculateDistance,
+  isWithinRadius,
+  formatDistance,
+  formatDuration,
+  calculateBearing,
+  getDirectionalArrow,
+  getRelativeBearing,
+  getCompassDirection
+} from '../utils/distance.js';
 import { 
   formatDisplayInstruction, 
   generateVoiceAnnouncement, 
-  generateProgressAnnouncement 
+  generateProgressAnnouncement,
+  findProgressMilestone,
+  describeRelativeDirection,
+  findAnnouncementThreshold,
+  getClockPosition,
+  describeRouteOption,
+  formatSpokenDistance
 } from '../utils/instructions.js';
 
 // Import LocationUpdate from MentraOS SDK
 import { LocationUpdate } from '@mentra/sdk';
 
+// Some devices report motion alongside the fix; the SDK type doesn't declare these yet
+export type LocationStreamData = LocationUpdate & {
+  heading?: number;
+  course?: number;
+  speed?: number;
+};
+
+// A destination query that matched several places, kept until the user picks one
+interface PendingDestination {
+  query: string;
+  choices: GeocodeResult[];
+  waypoints: RoutePoint[];
+  options: TripOptions;
+}
+
 export class NavigationManager {
   private session: AppSession;
   private mappingService: MappingService;
   private streetViewService: StreetViewService;
   private geminiService: GeminiService;
+  private imageWorkspace: ImageWorkspace; // this session's image files, removed on dispose
+  private sceneSources: SceneSourceChain; // where scene images come from, in fallback order
+  private speechQueue: SpeechQueue;
   private navigationState: NavigationState;
   private settings: NavigationSettings;
   private instructions: NavigationInstruction[] = [];
   private currentInstructionIndex: number = 0;
+  private routeTracker?: RouteTracker;
+  private headingTracker = new HeadingTracker();
+  private pendingStepIndex: number = -1;
+  private pendingStepConfirmations: number = 0;
   private lastAnnouncedDistance: number = -1;
+  private lastProgressMilestone: number | null = null; // remaining-distance milestone already announced
   private routeTrackingInterval?: NodeJS.Timeout;
   private displayUpdateInterval?: NodeJS.Timeout;
   private aiContextInterval?: NodeJS.Timeout;
   private offRouteCheckCount: number = 0;
+  private isRecalculating: boolean = false;
+  private lastRecalculationTime: number = 0;
+  private routeOptions: NavigationRoute[] = []; // last routes offered by findAlternativeRoutes, route 1 first
+  private routeOptionsTime: number = 0;
+  private placeResults: PlaceSearchResult[] = []; // last places found by findNearbyPlaces, nearest first
+  private placeResultIndex: number = 0; // place the user is currently hearing about
+  private placeResultsTime: number = 0;
+  private legStartSteps: number[] = []; // instruction index where each leg of the current route begins
+  private legStopIds: string[] = []; // stop each leg ends at, in leg order - the last leg ends at the destination
+  private stopCounter: number = 0;
+  private pendingDestination?: PendingDestination; // ambiguous destination waiting for the user to pick a result
   private lastLocationUpdate?: Date;
   private currentAiContext: string = 'Loading surroundings...';
+  private currentSceneSource?: string; // id of the scene source that produced currentAiContext
+  private lastSceneLocation?: Coordinates; // where the scene was last described, to skip refreshes while standing still
+  private lastSceneHeading?: number; // heading bucket it was described facing
+  private sceneUpdateInProgress: boolean = false; // a slow capture or analysis must not overlap the next update
   private currentStoreSignDetection: StoreSignDetection = {
     detected: false,
     confidence: 0,
@@ -54,20 +121,44 @@ export class NavigationManager {
   // Event listeners
   private eventListeners: Map<NavigationEventType, ((event: NavigationEvent) => void)[]> = new Map();
   private locationUnsubscriber?: () => void;
+  private locationRestartTimer?: NodeJS.Timeout; // pending resubscribe after navigation ends
+  private disposed: boolean = false;
 
   // Constants
-  private static readonly ROUTE_DEVIATION_THRESHOLD = 50; // meters
+  private static readonly ROUTE_DEVIATION_THRESHOLD = 50; // meters - driving baseline, see getOffRouteThreshold
   private static readonly MAX_OFF_ROUTE_CHECKS = 3;
+  private static readonly OFF_ROUTE_BASELINES: Partial<Record<TransportationMode, number>> = {
+    walking: 25, // meters
+    cycling: 35
+  };
+  private static readonly MAX_ACCURACY_ALLOWANCE = 40; // meters - cap on how much a poor fix widens the corridor
+  private static readonly UNUSABLE_FIX_ACCURACY = 100; // meters - fixes worse than this are ignored for off-route checks
+  private static readonly RECALCULATION_COOLDOWN = 20000; // 20 seconds between route recalculations
+  private static readonly ROUTE_OPTIONS_MAX_AGE = 120000; // 2 minutes before offered routes are too stale to pick
+  private static readonly PLACE_RESULTS_MAX_AGE = 300000; // 5 minutes of browsing before found places are forgotten
   private static readonly LOCATION_UPDATE_INTERVAL = 1000; // 1 second - more frequent like running example
   private static readonly INSTRUCTION_DISTANCE_THRESHOLD = 30; // meters
   private static readonly DESTINATION_THRESHOLD = 30; // meters - more forgiving arrival detection
+  private static readonly STEP_MATCH_TOLERANCE = 40; // meters - fixes further from the route can't move the step
+  private static readonly STEP_ADVANCE_MARGIN = 8; // meters past a step boundary before advancing
+  private static readonly STEP_ADVANCE_CONFIRMATIONS = 2; // consecutive fixes needed to advance
+  private static readonly STEP_LOOKAHEAD = 3; // steps ahead of the current one considered when matching
+  private static readonly MAX_PACE_WEIGHT = 0.7; // share of the ETA taken from observed pace once the window is full
+  private static readonly PACE_WEIGHT_WINDOW = 180; // seconds of observed pace needed for full weight
+  private static readonly MIN_OBSERVED_SPEED = 0.3; // m/s - below this the user is waiting, not walking slowly
+  private static readonly STREET_VIEW_MANEUVER_DISTANCE = 40; // meters - closer than this, scenes look toward the turn
+  private static readonly SCENE_REFRESH_DISTANCE = 10; // meters moved before the scene is described again
+  private static readonly AT_INTERSECTION_DISTANCE = 15; // meters - closer than this the user is standing at the corner
 
   constructor(session: AppSession, settings: NavigationSettings) {
     this.session = session;
     this.settings = settings;
     this.mappingService = new MappingService();
     this.streetViewService = new StreetViewService();
-    this.geminiService = new GeminiService();
+    this.imageWorkspace = new ImageWorkspace();
+    this.geminiService = new GeminiService(this.imageWorkspace);
+    this.sceneSources = createSceneSourceChainFromEnv(session, this.streetViewService);
+    this.speechQueue = new SpeechQueue(session, settings.voice_language);
     
     this.navigationState = {
       isNavigating: false,
@@ -83,8 +174,13 @@ export class NavigationManager {
 
   /**
    * Start navigation to a destination
+   * @param destination Address, place name or coordinates
+   * @param waypoints Stops to visit on the way, in the order given unless options.optimizeStopOrder is set
+   * @param options Stop ordering and time windows
    */
-  async startNavigation(destination: string | Coordinates, waypoints?: Coordinates[]): Promise<boolean> {
+  async startNavigation(destination: string | Coordinates, waypoints: RoutePoint[] = [], options: TripOptions = {}): Promise<boolean> {
+    this.pendingDestination = undefined;
+
     try {
       // Get current location
       const currentLocation = await this.getCurrentLocation();
@@ -100,26 +196,35 @@ export class NavigationManager {
       if (typeof destination === 'string') {
         console.log('Geocoding destination:', destination);
         
-        // Try to geocode the destination
-        const geocodeResults = await this.mappingService.geocode(destination);
-        if (geocodeResults.length === 0) {
-          this.showMessage(`Unable to find location "${destination}". Please try a more specific address.`);
+        // Geocode near the user; if several places fit about equally well, ask which one
+        const resolution = await this.mappingService.resolveAddress(destination, currentLocation);
+        if (!resolution.result) {
+          if (resolution.choices.length === 0) {
+            this.showMessage(`Unable to find location "${destination}". Please try a more specific address.`);
+          } else {
+            this.askDestinationChoice({ query: destination, choices: resolution.choices, waypoints, options });
+          }
           return false;
         }
         
-        destinationCoords = geocodeResults[0].geometry.location;
+        destinationCoords = resolution.result.geometry.location;
         console.log('Geocoded to:', destinationCoords);
       } else {
         destinationCoords = destination;
       }
 
+      const stops = options.optimizeStopOrder && waypoints.length > 1
+        ? await this.orderStops(currentLocation, waypoints, destinationCoords, options.timeWindows)
+        : waypoints;
+
       // Calculate route with better error handling
       const route = await this.mappingService.calculateRoute({
         origin: currentLocation,
         destination: destinationCoords,
-        waypoints,
+        waypoints: stops,
         mode: this.settings.transportation_mode,
         avoid: this.getAvoidancePreferences(),
+        pedestrian: this.getPedestrianPreferences(),
         units: this.settings.distance_units,
         language: this.settings.voice_language
       });
@@ -139,7 +244,8 @@ export class NavigationManager {
         isOffRoute: false,
         routeProgress: 0,
         currentStepIndex: 1,
-        totalSteps: 0 // Will be set after instructions are generated
+        totalSteps: 0, // Will be set after instructions are generated
+        waypoints: stops.map(stop => this.createStop(stop, stop.name))
       };
 
       // Start high-frequency location tracking immediately for navigation
@@ -147,9 +253,7 @@ export class NavigationManager {
       console.log('🔄 Starting realtime location tracking for navigation');
       this.startLocationTracking();
 
-      this.instructions = this.mappingService.generateInstructions(route);
-      this.currentInstructionIndex = 0;
-      this.lastAnnouncedDistance = -1;
+      this.resetInstructionTracking(route);
       this.offRouteCheckCount = 0;
       
       // Debug: Log instructions setup
@@ -160,11 +264,6 @@ export class NavigationManager {
         streetName: this.instructions[0]?.streetName
       });
       
-      // Update navigation state with step counts
-      this.navigationState.totalSteps = this.instructions.length;
-      this.navigationState.currentStepIndex = 1;
-      this.navigationState.currentInstruction = this.instructions[0];
-
       // Location tracking was already started above with navigation state change
 
       // Start display update interval to keep directional arrow updated
@@ -178,11 +277,13 @@ export class NavigationManager {
       this.updateNavigationDisplay();
       
       // Get initial AI context
+      this.lastSceneLocation = undefined;
       this.updateAiContext();
       
       // Voice announcement
       if (this.settings.voice_guidance) {
-        this.speakText(`Navigation started. ${route.distance.text}, estimated time ${route.duration.text}.`);
+        const startCue = this.describeDirectionTo(this.getArrowTarget());
+        this.speakText(`Navigation started. ${route.distance.text}, estimated time ${route.duration.text}.${startCue ? ` The route starts ${startCue}.` : ''}`);
       }
       
       console.log('🔧 Navigation started successfully');
@@ -216,9 +317,7 @@ export class NavigationManager {
     // No need to stop AI context interval - it will continue providing context
     
     // Start basic location tracking to keep arrow pointing correctly
-    setTimeout(() => {
-      this.startLocationTracking();
-    }, 100);
+    this.restartLocationTracking();
     
     // Keep display update interval running to update directional arrow
     // The display will continue showing the last instruction
@@ -227,6 +326,7 @@ export class NavigationManager {
     this.showMessage('Navigation stopped\n\nSay "restart session" to start a new route');
     
     if (this.settings.voice_guidance) {
+      this.speechQueue.clear();
       this.speakText('Navigation cancelled. Say restart session to start a new route.');
     }
 
@@ -244,6 +344,15 @@ export class NavigationManager {
     this.navigationState.nextInstruction = undefined;
     this.navigationState.currentStepIndex = 0;
     this.navigationState.totalSteps = 0;
+    this.navigationState.currentHeading = undefined;
+    this.headingTracker.reset();
+    this.navigationState.distanceToNextTurn = undefined;
+    this.navigationState.distanceToDestination = undefined;
+    this.navigationState.timeToDestination = undefined;
+    this.navigationState.routeProgress = 0;
+    this.navigationState.waypoints = undefined;
+    this.pendingDestination = undefined;
+    this.routeTracker = undefined;
     
     // Stop display updates, AI context updates, and location tracking
     this.stopDisplayUpdateInterval();
@@ -255,6 +364,7 @@ export class NavigationManager {
     this.showMessage('🔓 Session Restarted\n\nYou can now start a new navigation');
     
     if (this.settings.voice_guidance) {
+      this.speechQueue.clear();
       this.speakText('Session restarted. You can now navigate to a new destination.');
     }
 
@@ -269,40 +379,92 @@ export class NavigationManager {
   }
 
   /**
-   * Add a waypoint to the current route
+   * Check if navigation is active
    */
-  async addWaypoint(waypoint: string | Coordinates): Promise<boolean> {
-    if (!this.navigationState.currentRoute || !this.navigationState.currentLocation) {
+  isNavigating(): boolean {
+    return this.navigationState.isNavigating;
+  }
+
+  /**
+   * Question waiting for the user when the last destination matched several places
+   * @returns Spoken list of choices, or null when no choice is pending
+   */
+  getPendingDestinationPrompt(): string | null {
+    const pending = this.pendingDestination;
+    if (!pending) return null;
+
+    const choices = pending.choices.map((choice, i) => `${i + 1}: ${this.describeGeocodeChoice(choice)}`);
+    return `I found ${pending.choices.length} places for "${pending.query}". ${choices.join('. ')}. Say "choose" and a number.`;
+  }
+
+  /**
+   * Pick one of the places offered for an ambiguous destination and start navigating there.
+   * The choice is remembered, so the same query goes straight there next time.
+   * @param choiceNumber Number as read back to the user (1 = first choice)
+   */
+  async chooseDestination(choiceNumber: number): Promise<boolean> {
+    const pending = this.pendingDestination;
+    const choice = pending?.choices[choiceNumber - 1];
+    if (!pending || !choice) {
       return false;
     }
 
-    try {
-      // Recalculate route with new waypoint
-      const currentWaypoints = this.navigationState.currentRoute.waypoints.map(wp => ({ lat: wp.lat, lng: wp.lng }));
-      currentWaypoints.push(typeof waypoint === 'string' ? await this.geocodeAddress(waypoint) : waypoint);
+    this.mappingService.rememberGeocodeChoice(pending.query, choice);
+    return this.startNavigation(pending.query, pending.waypoints, pending.options);
+  }
 
-      const newRoute = await this.mappingService.calculateRoute({
-        origin: this.navigationState.currentLocation,
-        destination: this.navigationState.currentRoute.endLocation,
-        waypoints: currentWaypoints,
-        mode: this.settings.transportation_mode,
-        avoid: this.getAvoidancePreferences(),
-        units: this.settings.distance_units
-      });
+  /**
+   * Start a trip through several errands, visiting them in the quickest order
+   * @param stops Place names or addresses, found near the current location
+   * @param destination Where the trip ends; without one the trip ends at whichever stop suits the order best
+   */
+  async planErrands(stops: string[], destination?: string): Promise<boolean> {
+    const location = await this.getCurrentLocation();
+    if (!location) {
+      this.showMessage('Unable to get current location. Please check GPS settings.');
+      return false;
+    }
 
-      if (newRoute) {
-        this.navigationState.currentRoute = newRoute;
-        this.instructions = this.mappingService.generateInstructions(newRoute);
-        this.currentInstructionIndex = 0;
-        this.updateNavigationDisplay();
-        
-        if (this.settings.voice_guidance) {
-          this.speakText('Route updated with new waypoint');
-        }
+    this.showMessage('Planning your stops...');
 
-        this.emitEvent('route_recalculated', { route: newRoute });
+    const places: RoutePoint[] = [];
+    for (const stop of stops) {
+      const place = await this.findPlace(stop, location);
+      if (!place) {
+        this.showMessage(`Unable to find "${stop}" nearby. Please try a more specific name.`);
+        return false;
+      }
+      places.push(place);
+    }
+
+    if (destination) {
+      return this.startNavigation(destination, places, { optimizeStopOrder: true });
+    }
+
+    const ordered = await this.orderStops(location, places);
+    const last = ordered.pop() as RoutePoint;
+    return this.startNavigation(last, ordered);
+  }
+
+  /**
+   * Add a stop to the end of the trip, before the destination
+   */
+  async addWaypoint(waypoint: string | Coordinates): Promise<boolean> {
+    if (!this.navigationState.isNavigating || !this.navigationState.currentRoute) {
+      return false;
+    }
+
+    try {
+      const location = typeof waypoint === 'string' ? await this.geocodeAddress(waypoint) : waypoint;
+      const stop = this.createStop(location, typeof waypoint === 'string' ? waypoint : undefined);
+      const stops = this.navigationState.waypoints || [];
+
+      this.navigationState.waypoints = [...stops, stop];
+      if (await this.rerouteThroughStops(`Stop ${stops.length + 1} added. Route updated.`)) {
         return true;
       }
+
+      this.navigationState.waypoints = stops;
     } catch (error) {
       console.error('Error adding waypoint:', error);
     }
@@ -310,6 +472,272 @@ export class NavigationManager {
     return false;
   }
 
+  /**
+   * Remove a stop that has not been visited yet
+   * @param stopNumber Stop number as spoken to the user (1 = first stop of the trip)
+   */
+  async removeWaypoint(stopNumber: number): Promise<boolean> {
+    const stops = this.navigationState.waypoints || [];
+    const stop = stops[stopNumber - 1];
+    if (!this.navigationState.isNavigating || !stop || stop.visited) {
+      return false;
+    }
+
+    this.navigationState.waypoints = stops.filter(other => other !== stop);
+    if (await this.rerouteThroughStops(`Stop ${stopNumber} removed. Route updated.`)) {
+      return true;
+    }
+
+    this.navigationState.waypoints = stops;
+    return false;
+  }
+
+  /**
+   * Move a stop that has not been visited yet to another place in the trip
+   * @param stopNumber Stop to move, as spoken to the user
+   * @param position Stop number it should have afterwards - never before a stop already visited
+   */
+  async moveWaypoint(stopNumber: number, position: number): Promise<boolean> {
+    const stops = this.navigationState.waypoints || [];
+    const stop = stops[stopNumber - 1];
+    const visitedCount = stops.filter(other => other.visited).length;
+    if (!this.navigationState.isNavigating || !stop || stop.visited || position <= visitedCount || position > stops.length) {
+      return false;
+    }
+
+    const reordered = stops.filter(other => other !== stop);
+    reordered.splice(position - 1, 0, stop);
+
+    this.navigationState.waypoints = reordered;
+    if (await this.rerouteThroughStops(`Moved ${this.describeStop(stop, stopNumber)} to stop ${position}. Route updated.`)) {
+      return true;
+    }
+
+    this.navigationState.waypoints = stops;
+    return false;
+  }
+
+  /**
+   * Trip stops in order, visited ones included
+   */
+  getWaypoints(): Waypoint[] {
+    return this.navigationState.waypoints || [];
+  }
+
+  /**
+   * Spoken list of the stops still ahead
+   */
+  describeRemainingStops(): string {
+    const stops = this.getWaypoints();
+    const remaining = stops.filter(stop => !stop.visited);
+    if (remaining.length === 0) {
+      return 'No stops before your destination.';
+    }
+
+    return remaining.map(stop => {
+      const number = stops.indexOf(stop) + 1;
+      const eta = stop.estimatedArrival ? ` in ${formatDuration(Math.max(0, (stop.estimatedArrival.getTime() - Date.now()) / 1000))}` : '';
+      return `Stop ${number}: ${stop.location.name || 'unnamed stop'}${eta}`;
+    }).join('. ') + '.';
+  }
+
+  /**
+   * Spoken description of where the user is: address, nearest cross street, direction of travel and
+   * nearby places. Works with or without an active route.
+   */
+  async describeSurroundings(): Promise<string> {
+    const location = (await this.getCurrentLocation()) || this.navigationState.currentLocation;
+    if (!location) {
+      return 'Unable to get your location. Please make sure location services are enabled.';
+    }
+
+    const { address, street, intersections, places } = await this.mappingService.getSurroundings(location);
+    const heading = this.headingTracker.getEstimate();
+    // Relative to the way the user is facing or moving when we know it, by compass otherwise
+    const describePosition = (target: Coordinates, distance: number = 0): string => {
+      const bearing = calculateBearing(location, target);
+      const direction = heading
+        ? describeRelativeDirection(getRelativeBearing(bearing, heading.heading))
+        : `to the ${getCompassDirection(bearing, false)}`;
+      return `${formatSpokenDistance(distance, this.settings)} ${direction}`;
+    };
+
+    const sentences: string[] = [];
+    if (street && address && !address.includes(street)) {
+      sentences.push(`You're on ${street}, near ${address}`);
+    } else if (address || street) {
+      sentences.push(address ? `You're at ${address}` : `You're on ${street}`);
+    } else {
+      sentences.push('Unable to find the street you are on');
+    }
+
+    // A corner of the user's own street names the cross street; otherwise take the nearest corner
+    const corner = intersections.find(intersection => !!street && intersection.streets.includes(street)) || intersections[0];
+    if (corner) {
+      const crossStreets = corner.streets.filter(name => name !== street);
+      sentences.push((corner.distance ?? 0) <= NavigationManager.AT_INTERSECTION_DISTANCE
+        ? `You're at the intersection of ${corner.streets.join(' and ')}`
+        : `Nearest ${crossStreets.length < corner.streets.length ? 'cross street' : 'intersection'}: ` +
+          `${crossStreets.join(' and ')}, ${describePosition(corner.location, corner.distance)}`);
+    }
+
+    if (heading) {
+      sentences.push(`${heading.source === 'device' ? 'Facing' : 'Heading'} ${getCompassDirection(heading.heading, false)}`);
+    }
+
+    if (places.length > 0) {
+      sentences.push(`Nearby: ${places.map(place => `${place.name}, ${describePosition(place.location, place.distance)}`).join('; ')}`);
+    }
+
+    return sentences.join('. ') + '.';
+  }
+
+  /**
+   * Calculate routes from the current location to the destination and remember them for selectAlternativeRoute
+   * @returns Spoken comparison of the routes, or null when navigation is not active or no route was found
+   */
+  async findAlternativeRoutes(): Promise<string | null> {
+    const route = this.navigationState.currentRoute;
+    const location = this.navigationState.currentLocation;
+    if (!this.navigationState.isNavigating || !route || !location) {
+      return null;
+    }
+
+    const routes = await this.mappingService.calculateRoutes({
+      origin: location,
+      destination: route.endLocation,
+      waypoints: this.getRemainingWaypoints(),
+      mode: this.settings.transportation_mode,
+      avoid: this.getAvoidancePreferences(),
+      pedestrian: this.getPedestrianPreferences(),
+      units: this.settings.distance_units,
+      language: this.settings.voice_language,
+      alternatives: true
+    });
+
+    // Navigation may have been stopped while the request was in flight
+    if (routes.length === 0 || !this.navigationState.isNavigating) {
+      return null;
+    }
+
+    this.routeOptions = routes;
+    this.routeOptionsTime = Date.now();
+
+    const descriptions = routes.map((option, i) => describeRouteOption(option, i + 1, i > 0 ? routes[0] : undefined));
+    if (routes.length === 1) {
+      return `No alternative routes found. ${descriptions[0]}.`;
+    }
+
+    const choices = routes.map((_, i) => i + 1).join(' or ');
+    return `${descriptions.join('. ')}. Say "use route" followed by ${choices} to switch.`;
+  }
+
+  /**
+   * Switch to a route offered by findAlternativeRoutes, keeping navigation running
+   * @param routeNumber Route number as spoken to the user (1 = first route offered)
+   * @returns False when there is no such route or the offered routes have expired
+   */
+  selectAlternativeRoute(routeNumber: number): boolean {
+    const route = this.routeOptions[routeNumber - 1];
+    const expired = Date.now() - this.routeOptionsTime > NavigationManager.ROUTE_OPTIONS_MAX_AGE;
+    if (!this.navigationState.isNavigating || !route || expired) {
+      return false;
+    }
+
+    // Only the route changes - navigation stays active and the session stays locked
+    this.navigationState.currentRoute = route;
+    this.navigationState.isOffRoute = false;
+    this.resetInstructionTracking(route);
+    this.offRouteCheckCount = 0;
+    this.updateNavigationDisplay();
+
+    if (this.settings.voice_guidance) {
+      this.speakText(`Switched to route ${routeNumber}. ${route.distance.text}, estimated time ${route.duration.text}.`);
+    }
+
+    this.emitEvent('route_recalculated', { route });
+    return true;
+  }
+
+  /**
+   * Search for places near the user and keep them for browsing with browsePlaceResults and goToPlaceResult
+   * @param query What to look for, e.g. "coffee"
+   * @param location Where the user is
+   * @param filters Open now and category
+   * @returns Spoken description of the nearest place, or null when nothing matched
+   */
+  async findNearbyPlaces(
+    query: string,
+    location: Coordinates,
+    filters: Pick<PlaceFilters, 'openNow' | 'category'> = {}
+  ): Promise<string | null> {
+    const places = await this.mappingService.findNearbyPlaces(query, location, {
+      ...filters,
+      mode: this.settings.transportation_mode,
+      pedestrian: this.getPedestrianPreferences()
+    });
+
+    this.placeResults = places;
+    this.placeResultIndex = 0;
+    this.placeResultsTime = Date.now();
+
+    if (places.length === 0) {
+      return null;
+    }
+
+    const browse = places.length > 1 ? 'Say "next" or "previous" to hear others, or "go there" to start directions.' : 'Say "go there" to start directions.';
+    return `Found ${places.length} ${places.length === 1 ? 'place' : 'places'}. ${this.describePlaceResult(0)}. ${browse}`;
+  }
+
+  /**
+   * Whether there are found places to browse
+   */
+  hasPlaceResults(): boolean {
+    return this.placeResults.length > 0 &&
+      Date.now() - this.placeResultsTime <= NavigationManager.PLACE_RESULTS_MAX_AGE;
+  }
+
+  /**
+   * Move through the places found by findNearbyPlaces
+   * @param step 1 for the next place, -1 for the previous one
+   * @returns Spoken description of the place moved to, or null when there are no places to browse
+   */
+  browsePlaceResults(step: number): string | null {
+    if (!this.hasPlaceResults()) {
+      return null;
+    }
+
+    const index = this.placeResultIndex + step;
+    if (index < 0) {
+      return `This is the first place. ${this.describePlaceResult(this.placeResultIndex)}.`;
+    }
+    if (index >= this.placeResults.length) {
+      return `That was the last place. Say "previous" to go back or "go there" to start directions.`;
+    }
+
+    this.placeResultIndex = index;
+    this.placeResultsTime = Date.now(); // browsing keeps the results fresh
+    return `${this.describePlaceResult(index)}.`;
+  }
+
+  /**
+   * Start navigating to the place the user is hearing about, using its coordinates rather than looking the name up again
+   * @returns The place's name, or null when there is no place to go to or navigation couldn't start
+   */
+  async goToPlaceResult(): Promise<string | null> {
+    const place = this.hasPlaceResults() ? this.placeResults[this.placeResultIndex] : undefined;
+    if (!place) {
+      return null;
+    }
+
+    if (!await this.startNavigation(place.geometry.location)) {
+      return null;
+    }
+
+    this.placeResults = [];
+    return place.name;
+  }
+
   /**
    * Get current navigation status
    */
@@ -325,7 +753,28 @@ export class NavigationManager {
     const distanceText = formatDistance(remainingDistance, this.settings.distance_units);
     const timeText = formatDuration(remainingTime, true);
 
-    return `${distanceText} remaining, ETA ${timeText}`;
+    const nextStop = this.getRemainingStops()[0];
+    const stopText = nextStop?.estimatedArrival
+      ? `. Next stop: ${this.describeStop(nextStop)}, ETA ${formatDuration(Math.max(0, (nextStop.estimatedArrival.getTime() - Date.now()) / 1000), true)}`
+      : '';
+
+    const relativeBearing = this.getRelativeBearingTo(route.endLocation);
+    if (this.settings.accessibility_mode && relativeBearing !== undefined) {
+      return `${distanceText} remaining, ETA ${timeText}${stopText}. Destination at ${getClockPosition(relativeBearing)} o'clock`;
+    }
+
+    return `${distanceText} remaining, ETA ${timeText}${stopText}`;
+  }
+
+  /**
+   * Speak the answer to a voice command that arrived as a transcription rather than a tool call
+   * (MentraOS speaks tool call results itself)
+   * @param key Replaces an earlier answer of the same kind still waiting to be spoken
+   */
+  speakReply(text: string, key?: string): void {
+    if (this.settings.voice_guidance) {
+      this.speakText(text, { priority: 'normal', key });
+    }
   }
 
   /**
@@ -336,10 +785,14 @@ export class NavigationManager {
     this.navigationState.currentSpeed = update.speed;
     this.lastLocationUpdate = update.timestamp;
 
+    this.headingTracker.update(update);
+    this.navigationState.currentHeading = this.headingTracker.getHeading(update.timestamp);
+
     console.log('📍 Location update received:', {
       lat: update.location.lat.toFixed(6),
       lng: update.location.lng.toFixed(6),
       isNavigating: this.navigationState.isNavigating,
+      heading: this.navigationState.currentHeading?.toFixed(0),
       currentStep: this.navigationState.currentStepIndex,
       totalSteps: this.navigationState.totalSteps
     });
@@ -360,6 +813,11 @@ export class NavigationManager {
    */
   updateSettings(newSettings: Partial<NavigationSettings>): void {
     this.settings = { ...this.settings, ...newSettings };
+    this.speechQueue.setLanguage(this.settings.voice_language);
+
+    if (!this.settings.voice_guidance) {
+      this.speechQueue.clear();
+    }
     
     if (this.navigationState.isNavigating) {
       this.updateNavigationDisplay();
@@ -396,10 +854,56 @@ export class NavigationManager {
     this.locationUnsubscriber = unsubscriber;
   }
 
+  /**
+   * Release timers, location tracking and audio when the session ends
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.locationRestartTimer) {
+      clearTimeout(this.locationRestartTimer);
+      this.locationRestartTimer = undefined;
+    }
+    this.stopDisplayUpdateInterval();
+    this.stopAiContextUpdateInterval();
+    this.stopLocationTracking();
+    this.speechQueue.dispose();
+    this.mappingService.cancelPendingRequests();
+    this.imageWorkspace.dispose();
+  }
+
   /**
    * Private methods
    */
 
+  /**
+   * "2 of 5: Blue Bottle Coffee, cafe, 350 meters, 4 minutes, open now"
+   */
+  private describePlaceResult(index: number): string {
+    const place = this.placeResults[index];
+    const parts = [`${index + 1} of ${this.placeResults.length}: ${place.name}`];
+
+    if (place.types[0]) {
+      parts.push(place.types[0].replace(/_/g, ' '));
+    }
+
+    const distance = place.travel_distance ?? place.distance;
+    if (distance !== undefined) {
+      parts.push(formatSpokenDistance(distance, this.settings));
+    }
+    if (place.travel_duration !== undefined) {
+      parts.push(formatDuration(Math.max(60, place.travel_duration)));
+    }
+
+    // Say when the hours are unknown, so "open now" searches never pass off such a place as open
+    const openNow = place.opening_hours?.open_now;
+    parts.push(openNow === undefined ? 'hours unknown' : openNow ? 'open now' : 'closed now');
+    if (place.rating !== undefined) {
+      parts.push(`rated ${place.rating}`);
+    }
+
+    return parts.join(', ');
+  }
+
   private async getCurrentLocation(): Promise<Coordinates | null> {
     try {
       const accuracy = this.getLocationAccuracy();
@@ -418,7 +922,25 @@ export class NavigationManager {
     }
   }
 
+  /**
+   * Subscribe again shortly, after the current subscription has been released
+   */
+  private restartLocationTracking(): void {
+    if (this.locationRestartTimer) {
+      clearTimeout(this.locationRestartTimer);
+    }
+    this.locationRestartTimer = setTimeout(() => {
+      this.locationRestartTimer = undefined;
+      this.startLocationTracking();
+    }, 100);
+  }
+
   private startLocationTracking(): void {
+    // The session is gone - subscribing now would leak a stream nobody releases
+    if (this.disposed) {
+      return;
+    }
+
     const accuracy = this.getLocationAccuracy();
     
     console.log(`🔄 Starting location tracking with accuracy: ${accuracy}`);
@@ -427,16 +949,17 @@ export class NavigationManager {
     try {
       const stopLocationUpdates = this.session.location.subscribeToStream(
         { accuracy },
-        (data) => {
+        (data: LocationStreamData) => {
           // This function is your handler - following docs pattern exactly
           console.log(`New location: ${data.lat}, ${data.lng} (accuracy: ${accuracy})`);
           
           // Your app logic here - update navigation state (like running example)
           try {
             this.onLocationUpdate({
-              location: { lat: data.lat, lng: data.lng },
-              speed: undefined, // Would come from device if available
-              heading: undefined,
+              location: { lat: data.lat, lng: data.lng, accuracy: data.accuracy },
+              speed: data.speed,
+              heading: data.heading,
+              course: data.course,
               timestamp: new Date()
             });
           } catch (error) {
@@ -524,59 +1047,89 @@ export class NavigationManager {
   }
 
   private async updateAiContext(): Promise<void> {
-    if (!this.navigationState.currentLocation) {
+    if (!this.navigationState.currentLocation || this.sceneUpdateInProgress) {
       return;
     }
 
+    this.sceneUpdateInProgress = true;
     try {
       console.log('🤖 Updating AI context...');
       
-      // Fetch street view image
-      const imagePath = await this.streetViewService.fetchStreetViewImage(
-        this.navigationState.currentLocation
-      );
+      // Look where the user is going rather than due north
+      const location = this.navigationState.currentLocation;
+      const heading = toHeadingBucket(this.getStreetViewHeading(location));
+
+      // Standing still and facing the same way - stored imagery hasn't changed, so don't pay to describe it again.
+      // A live camera can still show something new, like someone stepping into the path.
+      const primarySource = this.sceneSources.getPrimarySource();
+      if (!primarySource?.live && this.lastSceneLocation && heading === this.lastSceneHeading &&
+          calculateDistance(location, this.lastSceneLocation) < NavigationManager.SCENE_REFRESH_DISTANCE) {
+        console.log('🤖 Skipping AI context update - user has not moved');
+        return;
+      }
+
+      const frame = await this.sceneSources.capture({
+        location,
+        heading,
+        sideViews: this.settings.scene_side_views
+      });
       
-      if (imagePath) {
+      if (frame) {
         // Detect store signs with Roboflow first
         const storeSignDetection = await this.geminiService.detectStoreSigns(
-          imagePath,
-          this.navigationState.currentLocation
+          frame.image,
+          location,
+          frame.sceneKey
         );
         
         this.currentStoreSignDetection = storeSignDetection;
         console.log('✅ Store sign detection updated:', storeSignDetection);
 
         // Analyze with Gemini AI (passing store sign detection results)
-        const analysis = await this.geminiService.analyzeStreetViewImage(
-          imagePath,
-          this.navigationState.currentLocation,
-          storeSignDetection
-        );
+        const analysis = await this.geminiService.analyzeScene(frame, location, storeSignDetection);
         
-        this.currentAiContext = analysis;
-        console.log('✅ AI context updated:', analysis);
+        this.currentSceneSource = frame.source;
+        if (analysis.ok) {
+          // Only a described frame counts - a missing image or failed call is retried on the next update
+          this.lastSceneLocation = location;
+          this.lastSceneHeading = heading;
+          this.currentAiContext = analysis.description;
+          console.log(`✅ AI context updated from ${frame.source}:`, analysis.description);
+
+          if (this.settings.voice_guidance) {
+            this.speakText(analysis.description, { priority: 'background', key: 'scene' });
+          }
+        } else {
+          // Configuration and API errors are for the display and logs - never read them out to the user
+          this.currentAiContext = analysis.error;
+          console.warn(`⚠️ Scene analysis from ${frame.source} failed:`, analysis.error);
+        }
         
         // Update display immediately
         this.updateNavigationDisplay();
       } else {
-        this.currentAiContext = this.geminiService.getFallbackDescription(this.navigationState.currentLocation);
+        this.currentAiContext = this.geminiService.getFallbackDescription(location);
+        this.currentSceneSource = undefined;
         this.currentStoreSignDetection = {
           detected: false,
           confidence: 0,
           count: 0,
-          details: 'No image available'
+          details: 'No scene image available here'
         };
       }
       
     } catch (error) {
       console.error('Error updating AI context:', error);
       this.currentAiContext = 'AI context unavailable';
+      this.currentSceneSource = undefined;
       this.currentStoreSignDetection = {
         detected: false,
         confidence: 0,
         count: 0,
         details: 'Detection error'
       };
+    } finally {
+      this.sceneUpdateInProgress = false;
     }
   }
 
@@ -603,7 +1156,10 @@ export class NavigationManager {
     }
 
     // Update route progress
-    this.updateRouteProgress(update.location);
+    this.updateRouteProgress(update.location, update.timestamp);
+
+    // Check whether the next stop of the trip has been reached
+    this.checkWaypointArrival(update.location);
 
     // Check for off-route condition
     this.checkOffRoute(update.location);
@@ -615,64 +1171,142 @@ export class NavigationManager {
     this.updateNavigationDisplay();
 
     // Generate voice announcements
-    this.handleVoiceAnnouncements(update.location);
+    this.handleVoiceAnnouncements();
+  }
+
+  /**
+   * Reset instruction state for a newly calculated route
+   */
+  private resetInstructionTracking(route: NavigationRoute): void {
+    this.instructions = this.mappingService.generateInstructions(route);
+    this.routeOptions = []; // offered routes were planned from the previous route
+    const previousTracker = this.routeTracker;
+    this.routeTracker = new RouteTracker(route);
+    if (previousTracker) {
+      this.routeTracker.carryPaceFrom(previousTracker);
+    }
+    this.currentInstructionIndex = 0;
+    this.lastAnnouncedDistance = -1;
+    this.lastProgressMilestone = null;
+    this.pendingStepIndex = -1;
+    this.pendingStepConfirmations = 0;
+
+    this.navigationState.totalSteps = this.instructions.length;
+    this.navigationState.currentStepIndex = 1;
+    this.navigationState.currentInstruction = this.instructions[0];
+    this.navigationState.nextInstruction = this.instructions[1];
+    this.navigationState.distanceToNextTurn = this.routeTracker.getStepSpan(0)?.endDistance;
+    this.navigationState.distanceToDestination = this.routeTracker.hasGeometry()
+      ? this.routeTracker.getTotalLength()
+      : route.distance.value;
+    this.navigationState.timeToDestination = route.duration.value;
+    this.navigationState.routeProgress = 0;
+
+    // Legs follow the stops still ahead, in order, when the route was calculated
+    let stepCount = 0;
+    this.legStartSteps = route.legs.map(leg => {
+      const start = stepCount;
+      stepCount += leg.steps.length;
+      return start;
+    });
+    this.legStopIds = this.getRemainingStops().map(stop => stop.id);
+    this.updateStopEstimates(0, route.duration.value);
+
+    if (!this.routeTracker.hasGeometry()) {
+      console.warn('⚠️ Route has no step geometry - instructions will not advance automatically');
+    }
   }
 
   private updateCurrentInstruction(location: Coordinates): void {
-    if (this.currentInstructionIndex >= this.instructions.length) {
-      console.log('🔍 No more instructions to process');
+    const tracker = this.routeTracker;
+    if (!tracker || !tracker.hasGeometry() || this.currentInstructionIndex >= tracker.getStepCount()) {
+      console.log('🔍 No trackable instructions to process');
       return;
     }
 
-    const currentInstruction = this.instructions[this.currentInstructionIndex];
-    
-    console.log(`🔍 Current instruction ${this.currentInstructionIndex + 1}/${this.instructions.length}:`, {
-      instruction: currentInstruction.instruction,
-      distance: currentInstruction.distance,
-      isDestination: currentInstruction.isDestination
-    });
-    
-    // Simplified advancement logic - advance after traveling some distance or time
-    // In a real implementation, this would be based on route geometry
-    if (currentInstruction && !currentInstruction.isDestination) {
-      // For now, advance instructions every 30 seconds or when very close to destination
-      const timeSinceStart = Date.now() - (this.lastLocationUpdate?.getTime() || Date.now());
-      const shouldAdvance = this.currentInstructionIndex < this.instructions.length - 2 && 
-                           Math.random() < 0.1; // 10% chance each update for demo purposes
-      
-      if (shouldAdvance) {
-        console.log(`🔍 Advancing to next instruction: ${this.currentInstructionIndex + 1} -> ${this.currentInstructionIndex + 2}`);
-        
-        this.currentInstructionIndex++;
-        this.lastAnnouncedDistance = -1; // Reset for next instruction
-        
-        // Update step index for progress display
-        this.navigationState.currentStepIndex = this.currentInstructionIndex + 1;
-        
-        if (this.currentInstructionIndex < this.instructions.length) {
-          this.emitEvent('instruction_updated', {
-            instruction: this.instructions[this.currentInstructionIndex],
-            stepIndex: this.navigationState.currentStepIndex,
-            totalSteps: this.navigationState.totalSteps
-          });
-        }
+    // Only steps from the current one onwards are matched, so the step can never rewind
+    const match = tracker.match(location, this.currentInstructionIndex, NavigationManager.STEP_LOOKAHEAD);
+    if (!match || match.distance > NavigationManager.STEP_MATCH_TOLERANCE) {
+      console.log(`🔍 Location too far from route to match a step (${match?.distance.toFixed(1) ?? 'n/a'}m)`);
+      this.pendingStepIndex = -1;
+      this.pendingStepConfirmations = 0;
+      return;
+    }
+
+    // Require the projection to be clearly past the boundary, on consecutive fixes,
+    // so jitter around a corner can't flip between steps
+    const targetIndex = tracker.getStepIndexAt(
+      match.alongDistance - NavigationManager.STEP_ADVANCE_MARGIN,
+      this.currentInstructionIndex
+    );
+
+    if (targetIndex > this.currentInstructionIndex) {
+      if (targetIndex === this.pendingStepIndex) {
+        this.pendingStepConfirmations++;
+      } else {
+        this.pendingStepIndex = targetIndex;
+        this.pendingStepConfirmations = 1;
       }
+
+      if (this.pendingStepConfirmations >= NavigationManager.STEP_ADVANCE_CONFIRMATIONS) {
+        this.advanceToInstruction(targetIndex);
+      }
+    } else {
+      this.pendingStepIndex = -1;
+      this.pendingStepConfirmations = 0;
     }
 
-    // Update navigation state
-    this.navigationState.currentInstruction = this.instructions[this.currentInstructionIndex];
-    this.navigationState.nextInstruction = this.instructions[this.currentInstructionIndex + 1];
+    const span = tracker.getStepSpan(this.currentInstructionIndex);
+    this.navigationState.distanceToNextTurn = span
+      ? Math.max(0, span.endDistance - match.alongDistance)
+      : undefined;
+
+    console.log(`🔍 Current instruction ${this.currentInstructionIndex + 1}/${this.instructions.length}:`, {
+      instruction: this.instructions[this.currentInstructionIndex]?.instruction,
+      offRouteDistance: match.distance.toFixed(1),
+      alongDistance: match.alongDistance.toFixed(1),
+      distanceToNextTurn: this.navigationState.distanceToNextTurn?.toFixed(1)
+    });
+  }
+
+  private advanceToInstruction(index: number): void {
+    console.log(`🔍 Advancing to next instruction: ${this.currentInstructionIndex + 1} -> ${index + 1}`);
+
+    this.currentInstructionIndex = index;
+    this.lastAnnouncedDistance = -1; // Reset for next instruction
+    this.pendingStepIndex = -1;
+    this.pendingStepConfirmations = 0;
+
+    // Update step index for progress display
+    this.navigationState.currentStepIndex = index + 1;
+    this.navigationState.currentInstruction = this.instructions[index];
+    this.navigationState.nextInstruction = this.instructions[index + 1];
+
+    this.emitEvent('instruction_updated', {
+      instruction: this.instructions[index],
+      stepIndex: this.navigationState.currentStepIndex,
+      totalSteps: this.navigationState.totalSteps
+    });
   }
 
   private checkOffRoute(location: Coordinates): void {
-    // Simplified off-route detection
-    // In a real implementation, this would check against the route polyline
     if (!this.navigationState.currentRoute) return;
 
+    // Without route geometry there's nothing to measure against - don't guess
+    if (!this.routeTracker?.hasGeometry()) return;
+
+    // A fix this poor can't tell us which side of the street we're on, let alone whether we left the route
+    if (location.accuracy !== undefined && location.accuracy > NavigationManager.UNUSABLE_FIX_ACCURACY) {
+      console.log(`🔍 Skipping off-route check - poor fix accuracy (${location.accuracy.toFixed(0)}m)`);
+      return;
+    }
+
     const distanceToRoute = this.calculateDistanceToRoute(location);
+    const threshold = this.getOffRouteThreshold(location.accuracy);
     
-    if (distanceToRoute > NavigationManager.ROUTE_DEVIATION_THRESHOLD) {
+    if (distanceToRoute > threshold) {
       this.offRouteCheckCount++;
+      console.log(`🔍 Off route check ${this.offRouteCheckCount}/${NavigationManager.MAX_OFF_ROUTE_CHECKS}: ${distanceToRoute.toFixed(1)}m from route (threshold ${threshold.toFixed(1)}m)`);
       
       if (this.offRouteCheckCount >= NavigationManager.MAX_OFF_ROUTE_CHECKS) {
         this.handleOffRoute(location);
@@ -686,37 +1320,67 @@ export class NavigationManager {
     }
   }
 
+  /**
+   * Corridor width around the route before a fix counts as off route.
+   * Pedestrians drift off a line much less than the GPS does, so the
+   * baseline is tighter for walking and widened by the reported accuracy.
+   */
+  private getOffRouteThreshold(accuracy?: number): number {
+    const baseline = NavigationManager.OFF_ROUTE_BASELINES[this.settings.transportation_mode]
+      ?? NavigationManager.ROUTE_DEVIATION_THRESHOLD;
+
+    const allowance = accuracy !== undefined
+      ? Math.min(accuracy, NavigationManager.MAX_ACCURACY_ALLOWANCE)
+      : NavigationManager.MAX_ACCURACY_ALLOWANCE / 2;
+
+    return baseline + allowance;
+  }
+
   private handleOffRoute(location: Coordinates): void {
-    if (this.navigationState.isOffRoute) return;
+    if (!this.navigationState.isOffRoute) {
+      this.navigationState.isOffRoute = true;
+      this.showMessage('Off route - recalculating...');
+      
+      if (this.settings.voice_guidance) {
+        this.speakText('Recalculating route', { priority: 'urgent', key: 'reroute' });
+      }
 
-    this.navigationState.isOffRoute = true;
-    this.showMessage('Off route - recalculating...');
-    
-    if (this.settings.voice_guidance) {
-      this.speakText('Recalculating route');
+      this.emitEvent('off_route_detected', { location });
     }
 
-    this.emitEvent('off_route_detected', { location });
+    // Still off route after a failed or cooled-down attempt - try again once allowed
     this.recalculateRoute(location);
   }
 
   private async recalculateRoute(currentLocation: Coordinates): Promise<void> {
-    if (!this.navigationState.currentRoute) return;
+    if (!this.navigationState.currentRoute || this.isRecalculating) return;
+
+    const sinceLastRecalculation = Date.now() - this.lastRecalculationTime;
+    if (sinceLastRecalculation < NavigationManager.RECALCULATION_COOLDOWN) {
+      console.log(`🔍 Recalculation on cooldown (${Math.round((NavigationManager.RECALCULATION_COOLDOWN - sinceLastRecalculation) / 1000)}s left)`);
+      return;
+    }
+
+    this.isRecalculating = true;
+    this.lastRecalculationTime = Date.now();
 
     try {
       const newRoute = await this.mappingService.calculateRoute({
         origin: currentLocation,
         destination: this.navigationState.currentRoute.endLocation,
+        waypoints: this.getRemainingWaypoints(),
         mode: this.settings.transportation_mode,
         avoid: this.getAvoidancePreferences(),
-        units: this.settings.distance_units
+        pedestrian: this.getPedestrianPreferences(),
+        units: this.settings.distance_units,
+        language: this.settings.voice_language
       });
 
-      if (newRoute) {
+      // Navigation may have been stopped while the request was in flight
+      if (newRoute && this.navigationState.isNavigating) {
         this.navigationState.currentRoute = newRoute;
         this.navigationState.isOffRoute = false;
-        this.instructions = this.mappingService.generateInstructions(newRoute);
-        this.currentInstructionIndex = 0;
+        this.resetInstructionTracking(newRoute);
         this.offRouteCheckCount = 0;
         
         this.showMessage('Route recalculated');
@@ -725,7 +1389,218 @@ export class NavigationManager {
     } catch (error) {
       console.error('Error recalculating route:', error);
       this.showMessage('Unable to recalculate route');
+    } finally {
+      this.isRecalculating = false;
+    }
+  }
+
+  /**
+   * Stops not visited yet, in trip order
+   */
+  private getRemainingStops(): Waypoint[] {
+    return (this.navigationState.waypoints || []).filter(stop => !stop.visited);
+  }
+
+  /**
+   * Coordinates of the stops not visited yet, for route requests
+   */
+  private getRemainingWaypoints(): Coordinates[] {
+    return this.getRemainingStops().map(stop => ({ lat: stop.location.lat, lng: stop.location.lng }));
+  }
+
+  /**
+   * Put stops in the quickest visiting order using the routing provider's travel matrix
+   * @param destination Fixed final destination; without one the order's last stop ends the trip
+   * @returns The stops, reordered
+   */
+  private async orderStops(
+    origin: Coordinates,
+    stops: RoutePoint[],
+    destination?: Coordinates,
+    timeWindows?: (StopTimeWindow | undefined)[]
+  ): Promise<RoutePoint[]> {
+    const matrix = await this.mappingService.calculateMatrix({
+      locations: destination ? [origin, ...stops, destination] : [origin, ...stops],
+      mode: this.settings.transportation_mode,
+      pedestrian: this.getPedestrianPreferences()
+    });
+
+    const result = optimizeStopOrder(matrix, stops.length, { fixedDestination: !!destination, timeWindows });
+    const ordered = result.order.map(index => stops[index]);
+
+    console.log(`🧮 Stop order from ${matrix.source} matrix: ${ordered.map(stop => stop.name || `${stop.lat},${stop.lng}`).join(' -> ')} (${Math.round(result.totalDuration / 60)} min)`);
+
+    if (result.lateStops.length > 0 && this.settings.voice_guidance) {
+      const names = result.lateStops.map(index => stops[index].name || `stop ${result.order.indexOf(index) + 1}`);
+      this.speakText(`Every order reaches ${names.join(' and ')} later than requested.`);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Find an errand by name near a location, falling back to geocoding it as an address
+   */
+  private async findPlace(query: string, near: Coordinates): Promise<RoutePoint | null> {
+    const [place] = await this.mappingService.searchPlaces(query, near);
+    if (place) {
+      return { ...place.geometry.location, name: place.name || query, type: 'waypoint' };
+    }
+
+    const [result] = await this.mappingService.geocode(query, near);
+    return result ? { ...result.geometry.location, name: query, type: 'waypoint' } : null;
+  }
+
+  private askDestinationChoice(pending: PendingDestination): void {
+    this.pendingDestination = pending;
+    const prompt = this.getPendingDestinationPrompt() as string;
+
+    console.log(`❓ Ambiguous destination "${pending.query}":`, pending.choices.map(choice => choice.formatted_address));
+    this.showMessage(prompt);
+    if (this.settings.voice_guidance) {
+      this.speakText(prompt, { priority: 'urgent' });
+    }
+  }
+
+  /**
+   * Short spoken description of a geocode result: its name, the next parts of its address, and how far away it is
+   */
+  private describeGeocodeChoice(choice: GeocodeResult): string {
+    const parts = choice.formatted_address.split(',').map(part => part.trim()).filter(Boolean);
+    const name = choice.name || parts[0];
+    const context = parts.filter(part => part !== name && !/^\d+$/.test(part)).slice(0, 2);
+    const distance = choice.distance !== undefined ? `, ${formatDistance(choice.distance, this.settings.distance_units)} away` : '';
+
+    return `${[name, ...context].join(', ')}${distance}`;
+  }
+
+  private createStop(location: Coordinates, name?: string): Waypoint {
+    return {
+      id: `stop_${++this.stopCounter}`,
+      location: { lat: location.lat, lng: location.lng, name, type: 'waypoint' },
+      visited: false
+    };
+  }
+
+  /**
+   * Name to speak for a stop: its name, else "stop N" by its place in the trip
+   */
+  private describeStop(stop: Waypoint, stopNumber?: number): string {
+    const number = stopNumber ?? (this.navigationState.waypoints || []).indexOf(stop) + 1;
+    return stop.location.name || `stop ${number}`;
+  }
+
+  /**
+   * Recalculate from the current location through the stops still ahead, keeping navigation running
+   * @param announcement Spoken once the new route is in place
+   */
+  private async rerouteThroughStops(announcement: string): Promise<boolean> {
+    const route = this.navigationState.currentRoute;
+    const location = this.navigationState.currentLocation;
+    if (!route || !location) {
+      return false;
     }
+
+    const newRoute = await this.mappingService.calculateRoute({
+      origin: location,
+      destination: route.endLocation,
+      waypoints: this.getRemainingWaypoints(),
+      mode: this.settings.transportation_mode,
+      avoid: this.getAvoidancePreferences(),
+      pedestrian: this.getPedestrianPreferences(),
+      units: this.settings.distance_units,
+      language: this.settings.voice_language
+    });
+
+    // Navigation may have been stopped while the request was in flight
+    if (!newRoute || !this.navigationState.isNavigating) {
+      return false;
+    }
+
+    this.navigationState.currentRoute = newRoute;
+    this.navigationState.isOffRoute = false;
+    this.resetInstructionTracking(newRoute);
+    this.offRouteCheckCount = 0;
+    this.updateNavigationDisplay();
+
+    if (this.settings.voice_guidance) {
+      this.speakText(announcement);
+    }
+
+    this.emitEvent('route_recalculated', { route: newRoute });
+    return true;
+  }
+
+  /**
+   * Mark the next stop visited once the user is at it, or once guidance has moved past its leg
+   */
+  private checkWaypointArrival(location: Coordinates): void {
+    const stop = this.getRemainingStops()[0];
+    if (!stop) return;
+
+    const legIndex = this.legStopIds.indexOf(stop.id);
+    const nextLegStart = legIndex >= 0 ? this.legStartSteps[legIndex + 1] : undefined;
+    const passedLeg = nextLegStart !== undefined && this.currentInstructionIndex >= nextLegStart;
+
+    if (isWithinRadius(location, stop.location, NavigationManager.DESTINATION_THRESHOLD) || passedLeg) {
+      this.handleWaypointReached(stop, nextLegStart);
+    }
+  }
+
+  private handleWaypointReached(stop: Waypoint, nextLegStart: number | undefined): void {
+    const stops = this.navigationState.waypoints || [];
+    const stopNumber = stops.indexOf(stop) + 1;
+    stop.visited = true;
+    console.log(`📍 Reached stop ${stopNumber}/${stops.length}: ${this.describeStop(stop)}`);
+
+    // Guidance for the next leg starts right away rather than after walking off the stop
+    if (nextLegStart !== undefined && nextLegStart < this.instructions.length && this.currentInstructionIndex < nextLegStart) {
+      this.advanceToInstruction(nextLegStart);
+    }
+
+    if (this.settings.voice_guidance) {
+      const next = this.getRemainingStops()[0];
+      const onward = next ? `Continuing to ${this.describeStop(next)}` : 'Continuing to your destination';
+      this.speakText(`You have arrived at ${this.describeStop(stop, stopNumber)}. ${onward}.`, { priority: 'urgent' });
+    }
+
+    this.updateNavigationDisplay();
+    this.emitEvent('waypoint_reached', { waypoint: stop, stopNumber });
+  }
+
+  /**
+   * Refresh each remaining stop's estimated arrival from the provider durations still ahead,
+   * scaled by how the blended ETA compares with the provider's own estimate
+   * @param alongDistance Distance from route start in meters, or undefined when the route has no geometry
+   * @param providerDuration Provider-estimated seconds from here to the destination
+   */
+  private updateStopEstimates(alongDistance: number | undefined, providerDuration: number): void {
+    const route = this.navigationState.currentRoute;
+    if (!route) return;
+
+    const now = Date.now();
+    const timeToDestination = this.navigationState.timeToDestination ?? providerDuration;
+    const paceScale = providerDuration > 0 ? timeToDestination / providerDuration : 1;
+    const tracker = this.routeTracker;
+    let legsDuration = 0;
+
+    route.legs.forEach((leg, legIndex) => {
+      legsDuration += leg.duration.value;
+      const stop = this.getRemainingStops().find(remaining => remaining.id === this.legStopIds[legIndex]);
+      if (!stop) return;
+
+      let secondsToStop: number;
+      const lastStepSpan = tracker?.getStepSpan(this.legStartSteps[legIndex] + leg.steps.length - 1);
+      if (tracker?.hasGeometry() && alongDistance !== undefined && lastStepSpan) {
+        secondsToStop = providerDuration - tracker.getRemainingDuration(Math.max(alongDistance, lastStepSpan.endDistance));
+      } else {
+        // No geometry - assume the same share of the trip is left for every leg
+        const elapsed = route.duration.value - providerDuration;
+        secondsToStop = legsDuration - elapsed;
+      }
+
+      stop.estimatedArrival = new Date(now + Math.max(0, secondsToStop * paceScale) * 1000);
+    });
   }
 
   private handleDestinationReached(): void {
@@ -740,9 +1615,7 @@ export class NavigationManager {
     // No need to stop AI context interval - it will continue providing context
     
     // Start basic location tracking to keep arrow pointing correctly (in case they move away)
-    setTimeout(() => {
-      this.startLocationTracking();
-    }, 100);
+    this.restartLocationTracking();
     
     // Update display to show final state
     this.updateNavigationDisplay();
@@ -750,7 +1623,8 @@ export class NavigationManager {
     this.showMessage('🎯 You have arrived at your destination!\n\nSay "restart session" to start a new route');
     
     if (this.settings.voice_guidance) {
-      this.speakText('You have arrived at your destination. Say restart session to start a new route.');
+      this.speechQueue.clear();
+      this.speakText('You have arrived at your destination. Say restart session to start a new route.', { priority: 'urgent' });
     }
 
     this.emitEvent('destination_reached', {});
@@ -776,7 +1650,8 @@ export class NavigationManager {
       sessionLocked: this.navigationState.sessionLocked,
       hasCurrentLocation: !!this.navigationState.currentLocation,
       hasDestination: !!this.navigationState.currentRoute?.endLocation,
-      storeSignDetected: this.currentStoreSignDetection.detected
+      storeSignDetected: this.currentStoreSignDetection.detected,
+      sceneSource: this.currentSceneSource
     });
     
     // Format main instruction with step progress - enhanced format
@@ -791,23 +1666,28 @@ export class NavigationManager {
     const distanceText = formatDistance(instruction.distance, this.settings.distance_units);
     const instructionWithProgress = `${mainText} for ${distanceText} (${currentStep}/${totalSteps})`;
     
-    // Calculate directional arrow to destination (this updates as you face different directions)
-    // The arrow ALWAYS points toward the final destination, regardless of current step
+    // Calculate directional arrow toward the next maneuver point, relative to where the user is heading,
+    // so ^ means straight ahead. Without a heading we show the compass direction instead of a misleading arrow
     let arrow = '?';
-    if (this.navigationState.currentLocation && this.navigationState.currentRoute) {
-      const bearing = calculateBearing(
-        this.navigationState.currentLocation,
-        this.navigationState.currentRoute.endLocation
-      );
-      arrow = getDirectionalArrow(bearing);
+    const target = this.getArrowTarget();
+    if (this.navigationState.currentLocation && target) {
+      const bearing = calculateBearing(this.navigationState.currentLocation, target);
+      const heading = this.headingTracker.getHeading();
+      this.navigationState.currentHeading = heading;
+
+      arrow = heading !== undefined
+        ? getDirectionalArrow(getRelativeBearing(bearing, heading))
+        : `toward ${getCompassDirection(bearing)}`;
       
-      console.log('🔍 Directional arrow to destination:', {
+      console.log('🔍 Directional arrow to next maneuver:', {
         bearing: bearing.toFixed(1),
+        heading: heading?.toFixed(1),
+        headingSource: this.headingTracker.getEstimate()?.source,
         arrow: arrow,
         currentLat: this.navigationState.currentLocation.lat.toFixed(6),
         currentLng: this.navigationState.currentLocation.lng.toFixed(6),
-        destinationLat: this.navigationState.currentRoute.endLocation.lat.toFixed(6),
-        destinationLng: this.navigationState.currentRoute.endLocation.lng.toFixed(6)
+        targetLat: target.lat.toFixed(6),
+        targetLng: target.lng.toFixed(6)
       });
     }
     
@@ -847,39 +1727,58 @@ export class NavigationManager {
       display += ` | ${formatDistance(remainingDistance, this.settings.distance_units)} remaining`;
     }
 
+    const nextStop = this.getRemainingStops()[0];
+    if (nextStop && this.navigationState.isNavigating) {
+      const stops = this.navigationState.waypoints || [];
+      display += `\nNext stop (${stops.indexOf(nextStop) + 1}/${stops.length}): ${this.describeStop(nextStop)}`;
+    }
+
     this.showMessage(display);
   }
 
-  private handleVoiceAnnouncements(location: Coordinates): void {
+  private handleVoiceAnnouncements(): void {
     if (!this.settings.voice_guidance || !this.navigationState.currentInstruction) {
       return;
     }
 
-    const instruction = this.navigationState.currentInstruction;
-    const distanceToTurn = this.calculateDistanceToCurrentInstruction(location);
-
-    // Generate voice announcement if needed
-    const announcement = generateVoiceAnnouncement(
-      instruction,
-      distanceToTurn,
-      this.settings.distance_units,
-      this.settings
-    );
+    // The maneuver at the end of the current step is the one to announce
+    const instruction = this.navigationState.nextInstruction ?? this.navigationState.currentInstruction;
+    const distanceToTurn = this.navigationState.distanceToNextTurn;
+    if (distanceToTurn === undefined) {
+      return;
+    }
 
-    if (announcement && distanceToTurn !== this.lastAnnouncedDistance) {
-      this.speakText(announcement);
-      this.lastAnnouncedDistance = distanceToTurn;
+    // Announce each threshold once per instruction, however many fixes land inside its window
+    const threshold = findAnnouncementThreshold(distanceToTurn, this.settings);
+    if (threshold !== null && threshold !== this.lastAnnouncedDistance) {
+      const announcement = generateVoiceAnnouncement(
+        instruction,
+        distanceToTurn,
+        this.settings.distance_units,
+        this.settings,
+        this.getRelativeBearingTo(this.getArrowTarget())
+      );
+
+      if (announcement) {
+        // One key for all turn cues, so a closer cue replaces a stale one still waiting to play
+        this.speakText(announcement, { priority: 'urgent', key: 'turn' });
+        this.lastAnnouncedDistance = threshold;
+      }
     }
 
-    // Generate progress announcements for long routes
+    // Generate progress announcements for long routes - each milestone once, as fixes stay near it for a while
     const remainingDistance = this.calculateRemainingDistance();
-    const progressAnnouncement = generateProgressAnnouncement(
-      remainingDistance,
-      this.settings.distance_units
-    );
+    const milestone = findProgressMilestone(remainingDistance, this.settings.distance_units);
+    if (milestone !== null && milestone !== this.lastProgressMilestone) {
+      const progressAnnouncement = generateProgressAnnouncement(
+        remainingDistance,
+        this.settings.distance_units
+      );
 
-    if (progressAnnouncement) {
-      this.speakText(progressAnnouncement);
+      if (progressAnnouncement) {
+        this.speakText(progressAnnouncement, { key: 'progress' });
+        this.lastProgressMilestone = milestone;
+      }
     }
   }
 
@@ -888,7 +1787,10 @@ export class NavigationManager {
       return 0;
     }
 
-    // Simplified calculation - would use actual route geometry in real implementation
+    if (this.navigationState.distanceToDestination !== undefined) {
+      return this.navigationState.distanceToDestination;
+    }
+
     return calculateDistance(
       this.navigationState.currentLocation,
       this.navigationState.currentRoute.endLocation
@@ -900,33 +1802,134 @@ export class NavigationManager {
       return 0;
     }
 
-    // Simplified calculation based on average speed
-    const remainingDistance = this.calculateRemainingDistance();
-    const averageSpeed = this.getAverageSpeed();
-    
-    return remainingDistance / averageSpeed; // seconds
+    if (this.navigationState.timeToDestination !== undefined) {
+      return this.navigationState.timeToDestination;
+    }
+
+    return this.calculateRemainingDistance() / this.getAverageSpeed(); // seconds
+  }
+
+  /**
+   * Blend the provider's remaining step durations with the user's observed pace.
+   * Pace gets more weight the longer it has been observed, so a brisk or slow
+   * walker converges on their own ETA within a few minutes.
+   */
+  private estimateRemainingTime(remainingDistance: number, providerDuration: number): number {
+    const providerEstimate = providerDuration > 0
+      ? providerDuration
+      : remainingDistance / this.getAverageSpeed();
+
+    const pace = this.routeTracker?.getObservedPace();
+    if (!pace || pace.speed < NavigationManager.MIN_OBSERVED_SPEED) {
+      return providerEstimate;
+    }
+
+    const observedEstimate = remainingDistance / pace.speed;
+    const weight = NavigationManager.MAX_PACE_WEIGHT
+      * Math.min(1, pace.windowSeconds / NavigationManager.PACE_WEIGHT_WINDOW);
+
+    return (1 - weight) * providerEstimate + weight * observedEstimate;
   }
 
   private calculateDistanceToRoute(location: Coordinates): number {
-    // Simplified - would calculate distance to nearest point on route polyline
-    if (!this.navigationState.currentRoute) return 0;
-    
-    return calculateDistance(location, this.navigationState.currentRoute.startLocation);
+    if (!this.navigationState.currentRoute || !this.routeTracker) return 0;
+
+    // Cross-track distance to the part of the route not yet walked
+    const match = this.routeTracker.project(location, this.currentInstructionIndex);
+    return match ? match.distance : 0;
   }
 
-  private calculateDistanceToCurrentInstruction(location: Coordinates): number {
-    // Simplified - would calculate distance to actual instruction point
-    return 100; // placeholder
+  /**
+   * Point the arrow should lead to: the end of the current step while navigating, else the destination
+   */
+  private getArrowTarget(): Coordinates | undefined {
+    const route = this.navigationState.currentRoute;
+    if (!route) return undefined;
+
+    if (this.navigationState.isNavigating && this.routeTracker?.hasGeometry()) {
+      const maneuverPoint = this.routeTracker.getStepEndLocation(this.currentInstructionIndex);
+      if (maneuverPoint) return maneuverPoint;
+    }
+
+    return route.endLocation;
   }
 
-  private updateRouteProgress(location: Coordinates): void {
-    if (!this.navigationState.currentRoute) return;
+  /**
+   * Direction to point the Street View camera: at the upcoming maneuver when it is close, so the scene
+   * shows the turn, otherwise the user's direction of travel, falling back to the bearing along the route
+   */
+  private getStreetViewHeading(location: Coordinates): number {
+    const target = this.getArrowTarget();
+    const distanceToTarget = target ? calculateDistance(location, target) : Infinity;
 
-    const totalDistance = this.navigationState.currentRoute.distance.value;
-    const remainingDistance = this.calculateRemainingDistance();
-    const progress = Math.max(0, Math.min(100, ((totalDistance - remainingDistance) / totalDistance) * 100));
-    
-    this.navigationState.routeProgress = progress;
+    if (target && distanceToTarget <= NavigationManager.STREET_VIEW_MANEUVER_DISTANCE) {
+      return calculateBearing(location, target);
+    }
+    return this.headingTracker.getHeading() ?? (target ? calculateBearing(location, target) : 0);
+  }
+
+  /**
+   * Bearing to a point relative to the user's heading, or undefined if either is unknown
+   */
+  private getRelativeBearingTo(target: Coordinates | undefined): number | undefined {
+    const location = this.navigationState.currentLocation;
+    const heading = this.headingTracker.getHeading();
+    if (!location || !target || heading === undefined) return undefined;
+
+    return getRelativeBearing(calculateBearing(location, target), heading);
+  }
+
+  /**
+   * Spoken direction to a point - relative to the user when their heading is known,
+   * otherwise as a compass direction
+   */
+  private describeDirectionTo(target: Coordinates | undefined): string | null {
+    const location = this.navigationState.currentLocation;
+    if (!location || !target) return null;
+
+    const bearing = calculateBearing(location, target);
+    const heading = this.headingTracker.getHeading();
+
+    return heading !== undefined
+      ? describeRelativeDirection(getRelativeBearing(bearing, heading))
+      : `toward the ${getCompassDirection(bearing, false)}`;
+  }
+
+  private updateRouteProgress(location: Coordinates, timestamp: Date): void {
+    const route = this.navigationState.currentRoute;
+    if (!route) return;
+
+    const tracker = this.routeTracker;
+    const match = tracker?.hasGeometry() ? tracker.project(location, this.currentInstructionIndex) : null;
+
+    let totalDistance: number;
+    let remainingDistance: number;
+    let providerDuration: number;
+
+    if (tracker && match) {
+      totalDistance = tracker.getTotalLength();
+      // When off the line, getting back to it is part of the remaining walk
+      remainingDistance = Math.max(0, totalDistance - match.alongDistance) + match.distance;
+      providerDuration = tracker.getRemainingDuration(match.alongDistance);
+
+      if (match.distance <= NavigationManager.STEP_MATCH_TOLERANCE) {
+        tracker.recordProgress(match.alongDistance, timestamp);
+      }
+    } else {
+      // No geometry - fall back to straight-line distance and prorated provider duration
+      totalDistance = route.distance.value;
+      remainingDistance = calculateDistance(location, route.endLocation);
+      providerDuration = totalDistance > 0
+        ? route.duration.value * Math.min(1, remainingDistance / totalDistance)
+        : 0;
+    }
+
+    this.navigationState.distanceToDestination = remainingDistance;
+    this.navigationState.timeToDestination = this.estimateRemainingTime(remainingDistance, providerDuration);
+    this.updateStopEstimates(match?.alongDistance, providerDuration);
+    this.navigationState.routeProgress = totalDistance > 0
+      ? Math.max(0, Math.min(100, ((totalDistance - remainingDistance) / totalDistance) * 100))
+      : 0;
   }
 
   private getLocationAccuracy(): 'realtime' | 'high' | 'tenMeters' | 'hundredMeters' | 'kilometer' | 'threeKilometers' | 'reduced' {
@@ -956,6 +1959,16 @@ export class NavigationManager {
     return avoid;
   }
 
+  private getPedestrianPreferences(): PedestrianPreferences {
+    return {
+      preferSignalizedCrossings: this.settings.prefer_signalized_crossings,
+      minimizeCrossings: this.settings.minimize_crossings,
+      avoidSteps: this.settings.avoid_steps,
+      avoidUnpaved: this.settings.avoid_unpaved,
+      preferSidewalks: this.settings.prefer_sidewalks
+    };
+  }
+
   private getAverageSpeed(): number {
     // Return average speed in m/s based on transportation mode
     switch (this.settings.transportation_mode) {
@@ -967,7 +1980,7 @@ export class NavigationManager {
   }
 
   private async geocodeAddress(address: string): Promise<Coordinates> {
-    const results = await this.mappingService.geocode(address);
+    const results = await this.mappingService.geocode(address, this.navigationState.currentLocation);
     if (results.length === 0) {
       throw new Error('Unable to geocode address');
     }
@@ -988,10 +2001,11 @@ export class NavigationManager {
     }
   }
 
-  private speakText(text: string): void {
-    // In a real implementation, this would use text-to-speech
-    console.log(`[VOICE]: ${text}`);
-    this.showMessage(`🔊 ${text}`);
+  /**
+   * Speak through the TTS queue. Audio only - the display is left to showMessage/updateNavigationDisplay
+   */
+  private speakText(text: string, options?: SpeechOptions): void {
+    this.speechQueue.speak(text, options);
   }
 
   private emitEvent(type: NavigationEventType, data?: any): void {
@@ -0,0 +1,243 @@
+/**
+ * Request Scheduler
+ * Process-wide queue of outgoing HTTP requests per host, so every session together stays within
+ * a host's rate limit (Nominatim allows one request per second across the whole app)
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+
+// navigation: the user is waiting to start or continue a route; search: browsing, context, nice-to-have
+export type RequestPriority = 'navigation' | 'search';
+
+export interface ScheduledRequest {
+  url: string;
+  params?: Record<string, unknown>;
+  priority?: RequestPriority; // default: 'search'
+  owner?: string; // session the request belongs to, for cancelOwner
+  client?: AxiosInstance; // client with the host's required headers (default: axios)
+}
+
+export interface HostPolicy {
+  minIntervalMs: number; // spacing between the starts of consecutive requests to the host
+  maxRetries: number; // retries after 429 or 5xx responses
+  baseBackoffMs: number; // first retry delay, doubled for each further retry
+}
+
+export class RequestCancelledError extends Error {
+  constructor(url: string) {
+    super(`Request cancelled: ${url}`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// A queued request and everyone waiting on it; identical requests share one entry
+interface PendingRequest {
+  key: string;
+  request: ScheduledRequest;
+  priority: number;
+  sequence: number;
+  owners: Set<string | undefined>;
+  waiters: { resolve: (response: AxiosResponse) => void; reject: (error: unknown) => void }[];
+  controller: AbortController;
+  attempts: number;
+  notBefore: number; // earliest start, for backoff
+}
+
+interface HostQueue {
+  policy: HostPolicy;
+  queue: PendingRequest[];
+  active?: PendingRequest;
+  lastStart: number;
+  timer?: NodeJS.Timeout;
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  navigation: 0,
+  search: 1
+};
+
+const DEFAULT_HOST_POLICY: HostPolicy = {
+  minIntervalMs: 1000,
+  maxRetries: 3,
+  baseBackoffMs: 2000
+};
+
+// Nominatim's usage policy: an absolute maximum of one request per second
+const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+  'nominatim.openstreetmap.org': { minIntervalMs: 1100 }
+};
+
+let defaultScheduler: RequestScheduler | undefined;
+
+export class RequestScheduler {
+  private hosts = new Map<string, HostQueue>();
+  private inFlight = new Map<string, PendingRequest>(); // queued or running, by coalescing key
+  private sequence = 0;
+
+  /**
+   * @param policies Per-host overrides of the default spacing and retry policy, keyed by host name
+   */
+  constructor(private policies: Record<string, Partial<HostPolicy>> = HOST_POLICIES) {}
+
+  /**
+   * Queue a GET request. An identical request already queued or running is shared rather than repeated.
+   * @throws RequestCancelledError when every owner waiting on the request has been cancelled
+   */
+  request(request: ScheduledRequest): Promise<AxiosResponse> {
+    const key = `${request.url}?${JSON.stringify(request.params || {})}`;
+    const priority = PRIORITY_ORDER[request.priority || 'search'];
+
+    return new Promise((resolve, reject) => {
+      const existing = this.inFlight.get(key);
+      if (existing) {
+        existing.owners.add(request.owner);
+        existing.waiters.push({ resolve, reject });
+        // A navigation request must not wait behind search just because search asked first
+        existing.priority = Math.min(existing.priority, priority);
+        return;
+      }
+
+      const pending: PendingRequest = {
+        key,
+        request,
+        priority,
+        sequence: this.sequence++,
+        owners: new Set([request.owner]),
+        waiters: [{ resolve, reject }],
+        controller: new AbortController(),
+        attempts: 0,
+        notBefore: 0
+      };
+
+      this.inFlight.set(key, pending);
+      const host = this.getHost(request.url);
+      host.queue.push(pending);
+      this.pump(host);
+    });
+  }
+
+  /**
+   * Drop a session's requests. Requests other sessions also wait on carry on for them.
+   * @param owner Owner passed with the requests
+   */
+  cancelOwner(owner: string): void {
+    for (const pending of [...this.inFlight.values()]) {
+      if (!pending.owners.delete(owner) || pending.owners.size > 0) continue;
+
+      this.inFlight.delete(pending.key);
+      pending.controller.abort();
+      pending.waiters.forEach(waiter => waiter.reject(new RequestCancelledError(pending.request.url)));
+
+      for (const host of this.hosts.values()) {
+        host.queue = host.queue.filter(queued => queued !== pending);
+      }
+    }
+  }
+
+  /**
+   * Requests waiting per host, for diagnostics
+   */
+  getQueueLengths(): Record<string, number> {
+    const lengths: Record<string, number> = {};
+    this.hosts.forEach((host, name) => {
+      lengths[name] = host.queue.length + (host.active ? 1 : 0);
+    });
+    return lengths;
+  }
+
+  private getHost(url: string): HostQueue {
+    const name = new URL(url).host;
+    let host = this.hosts.get(name);
+    if (!host) {
+      host = { policy: { ...DEFAULT_HOST_POLICY, ...this.policies[name] }, queue: [], lastStart: 0 };
+      this.hosts.set(name, host);
+    }
+    return host;
+  }
+
+  /**
+   * Start the next request for a host once the previous one is done and the spacing has passed
+   */
+  private pump(host: HostQueue): void {
+    if (host.active || host.timer || host.queue.length === 0) return;
+
+    const now = Date.now();
+    host.queue.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence);
+    const ready = host.queue.find(pending => pending.notBefore <= now);
+    const nextStart = Math.max(
+      host.lastStart + host.policy.minIntervalMs,
+      ready ? now : Math.min(...host.queue.map(pending => pending.notBefore))
+    );
+
+    if (!ready || nextStart > now) {
+      host.timer = setTimeout(() => {
+        host.timer = undefined;
+        this.pump(host);
+      }, nextStart - now);
+      return;
+    }
+
+    host.queue = host.queue.filter(pending => pending !== ready);
+    host.active = ready;
+    host.lastStart = now;
+    this.execute(host, ready);
+  }
+
+  private async execute(host: HostQueue, pending: PendingRequest): Promise<void> {
+    const client = pending.request.client || axios;
+    pending.attempts++;
+
+    try {
+      const response = await client.get(pending.request.url, {
+        params: pending.request.params,
+        signal: pending.controller.signal
+      });
+      this.settle(pending, waiter => waiter.resolve(response));
+    } catch (error) {
+      if (pending.controller.signal.aborted) {
+        // cancelOwner already rejected the waiters
+      } else if (this.isRetryable(error) && pending.attempts <= host.policy.maxRetries) {
+        const delay = this.getRetryDelay(error, host.policy, pending.attempts);
+        console.warn(`⏳ ${pending.request.url} failed (attempt ${pending.attempts}) - retrying in ${delay}ms`);
+        pending.notBefore = Date.now() + delay;
+        host.queue.push(pending);
+      } else {
+        this.settle(pending, waiter => waiter.reject(error));
+      }
+    } finally {
+      host.active = undefined;
+      this.pump(host);
+    }
+  }
+
+  private settle(pending: PendingRequest, notify: (waiter: PendingRequest['waiters'][number]) => void): void {
+    this.inFlight.delete(pending.key);
+    pending.waiters.forEach(notify);
+  }
+
+  private isRetryable(error: unknown): boolean {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    return status === 429 || (status !== undefined && status >= 500);
+  }
+
+  /**
+   * Honor the server's Retry-After when it sends one, else back off exponentially
+   */
+  private getRetryDelay(error: unknown, policy: HostPolicy, attempt: number): number {
+    const retryAfter = axios.isAxiosError(error) ? Number(error.response?.headers?.['retry-after']) : NaN;
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+    return policy.baseBackoffMs * 2 ** (attempt - 1);
+  }
+}
+
+/**
+ * Process-wide scheduler shared by every MappingService
+ */
+export function getDefaultRequestScheduler(): RequestScheduler {
+  if (!defaultScheduler) {
+    defaultScheduler = new RequestScheduler();
+  }
+  return defaultScheduler;
+}
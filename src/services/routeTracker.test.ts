@@ -0,0 +1,66 @@
+import { RouteTracker } from './routeTracker.js';
+import { Coordinates, NavigationRoute, RouteStep } from '../types/navigation.js';
+
+// Straight walk due north; 0.001 degrees of latitude is about 111 m
+function straightRoute(start: Coordinates, lengthDegrees: number): NavigationRoute {
+  const end = { lat: start.lat + lengthDegrees, lng: start.lng };
+  const step: RouteStep = {
+    distance: { text: '', value: 0 },
+    duration: { text: '', value: 600 },
+    startLocation: start,
+    endLocation: end,
+    instructions: 'Head north',
+    polyline: { points: '' },
+    travel_mode: 'WALKING'
+  };
+
+  return {
+    id: 'route',
+    startLocation: start,
+    endLocation: end,
+    waypoints: [],
+    overview_polyline: '',
+    distance: { text: '', value: 0 },
+    duration: { text: '', value: 600 },
+    legs: [{
+      distance: { text: '', value: 0 },
+      duration: { text: '', value: 600 },
+      startLocation: start,
+      endLocation: end,
+      startAddress: '',
+      endAddress: '',
+      steps: [step]
+    }],
+    warnings: []
+  };
+}
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe('RouteTracker pace', () => {
+  it('needs enough history before reporting a pace', () => {
+    const tracker = new RouteTracker(straightRoute({ lat: 52.5, lng: 13.4 }, 0.01));
+
+    tracker.recordProgress(0, at(0));
+    tracker.recordProgress(20, at(20));
+    expect(tracker.getObservedPace()).toBeNull();
+
+    tracker.recordProgress(60, at(60));
+    expect(tracker.getObservedPace()).toEqual({ speed: 1, windowSeconds: 60 });
+  });
+
+  it('keeps the pace history when the route is replaced', () => {
+    const old = new RouteTracker(straightRoute({ lat: 52.5, lng: 13.4 }, 0.01));
+    old.recordProgress(0, at(0));
+    old.recordProgress(60, at(60));
+
+    // The new route starts where the user is, so along-route distances restart near zero
+    const rerouted = new RouteTracker(straightRoute({ lat: 52.5006, lng: 13.4 }, 0.01));
+    rerouted.carryPaceFrom(old);
+    expect(rerouted.getObservedPace()).toEqual({ speed: 1, windowSeconds: 60 });
+
+    rerouted.recordProgress(0, at(60));
+    rerouted.recordProgress(60, at(120));
+    expect(rerouted.getObservedPace()).toEqual({ speed: 1, windowSeconds: 120 });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Route Tracker
+ * Matches user positions against route step geometry to measure progress along the route
+ */
+
+import { Coordinates, NavigationRoute, RouteStep } from '../types/navigation.js';
+import {
+  calculateCumulativeDistances,
+  projectOntoPolyline,
+  validateCoordinates,
+  type PolylineProjection
+} from '../utils/distance.js';
+import { decodeGeometry } from '../utils/geometry.js';
+
+// Distances along the route covered by a single step
+export interface StepSpan {
+  startDistance: number; // meters from route start to the step's first point
+  endDistance: number; // meters from route start to the step's last point
+}
+
+// Projection of a location onto the route, tagged with the step it falls on
+export interface RouteMatch extends PolylineProjection {
+  stepIndex: number;
+}
+
+interface StepVertexRange {
+  first: number;
+  last: number;
+}
+
+interface ProgressSample {
+  walkedDistance: number; // meters covered since the first sample, carried across route changes
+  timestamp: number;
+}
+
+const PACE_WINDOW_MS = 3 * 60 * 1000; // observed pace is measured over the last 3 minutes
+const MIN_PACE_SAMPLE_MS = 30 * 1000; // need at least 30 seconds of samples before trusting pace
+
+export class RouteTracker {
+  private points: Coordinates[] = [];
+  private cumulativeDistances: number[] = [];
+  private stepRanges: StepVertexRange[] = [];
+  private stepSpans: StepSpan[] = [];
+  private stepDurations: number[] = [];
+  private progressSamples: ProgressSample[] = [];
+  private lastAlongDistance?: number;
+
+  /**
+   * Build a tracker from a route. Steps are flattened across legs in the same
+   * order MappingService.generateInstructions emits instructions, so step N
+   * lines up with instruction N.
+   */
+  constructor(route: NavigationRoute) {
+    for (const leg of route.legs) {
+      for (const step of leg.steps) {
+        this.appendStep(step);
+        this.stepDurations.push(step.duration.value || 0);
+      }
+    }
+
+    this.cumulativeDistances = calculateCumulativeDistances(this.points);
+    this.stepSpans = this.stepRanges.map(range => ({
+      startDistance: range.first >= 0 ? this.cumulativeDistances[range.first] : 0,
+      endDistance: range.last >= 0 ? this.cumulativeDistances[range.last] : 0
+    }));
+  }
+
+  /**
+   * Whether the route carried any usable geometry
+   */
+  hasGeometry(): boolean {
+    return this.points.length >= 2;
+  }
+
+  /**
+   * Number of steps tracked (excludes the synthetic destination instruction)
+   */
+  getStepCount(): number {
+    return this.stepSpans.length;
+  }
+
+  /**
+   * Total length of the tracked geometry in meters
+   */
+  getTotalLength(): number {
+    return this.cumulativeDistances[this.cumulativeDistances.length - 1] || 0;
+  }
+
+  /**
+   * Get the along-route span of a step
+   */
+  getStepSpan(stepIndex: number): StepSpan | undefined {
+    return this.stepSpans[stepIndex];
+  }
+
+  /**
+   * Get the last point of a step - where its closing maneuver happens
+   */
+  getStepEndLocation(stepIndex: number): Coordinates | undefined {
+    const range = this.stepRanges[stepIndex];
+    return range && range.last >= 0 ? this.points[range.last] : undefined;
+  }
+
+  /**
+   * Project a location onto the route, searching only from the given step
+   * through a limited number of steps ahead so overlapping geometry
+   * (out-and-back sections, loops) can't pull the match backwards
+   * @param location Location to match
+   * @param fromStep First step to consider
+   * @param lookahead Number of steps after fromStep to consider
+   */
+  match(location: Coordinates, fromStep: number, lookahead: number): RouteMatch | null {
+    if (!this.hasGeometry() || this.stepRanges.length === 0) {
+      return null;
+    }
+
+    const firstStep = Math.max(0, Math.min(fromStep, this.stepRanges.length - 1));
+    const lastStep = Math.min(firstStep + lookahead, this.stepRanges.length - 1);
+    const fromVertex = Math.max(0, this.stepRanges[firstStep].first);
+    const toVertex = Math.max(fromVertex, this.stepRanges[lastStep].last);
+
+    const projection = projectOntoPolyline(
+      location,
+      this.points,
+      this.cumulativeDistances,
+      fromVertex,
+      toVertex - 1
+    );
+    if (!projection) {
+      return null;
+    }
+
+    return {
+      ...projection,
+      stepIndex: this.getStepIndexAt(projection.alongDistance, firstStep)
+    };
+  }
+
+  /**
+   * Project a location onto the whole remaining route from the given step
+   * @param location Location to project
+   * @param fromStep First step to consider (default: 0)
+   */
+  project(location: Coordinates, fromStep: number = 0): RouteMatch | null {
+    return this.match(location, fromStep, this.stepRanges.length);
+  }
+
+  /**
+   * Find the step covering a distance along the route, never returning a step before fromStep
+   * @param alongDistance Distance from route start in meters
+   * @param fromStep Lowest step index to return
+   */
+  getStepIndexAt(alongDistance: number, fromStep: number = 0): number {
+    let stepIndex = Math.max(0, fromStep);
+
+    for (let i = stepIndex + 1; i < this.stepSpans.length; i++) {
+      const span = this.stepSpans[i];
+      if (span.startDistance > alongDistance) {
+        break;
+      }
+      // Zero-length steps (e.g. Mapbox "arrive") can't be walked along
+      if (span.endDistance > span.startDistance) {
+        stepIndex = i;
+      }
+    }
+
+    return stepIndex;
+  }
+
+  /**
+   * Provider-estimated seconds needed to cover the route beyond a distance,
+   * prorating the step that distance falls in
+   * @param alongDistance Distance from route start in meters
+   */
+  getRemainingDuration(alongDistance: number): number {
+    let remaining = 0;
+
+    this.stepSpans.forEach((span, i) => {
+      const duration = this.stepDurations[i];
+      if (span.endDistance <= alongDistance) {
+        return;
+      }
+      if (span.startDistance >= alongDistance) {
+        remaining += duration;
+      } else {
+        const length = span.endDistance - span.startDistance;
+        remaining += duration * (span.endDistance - alongDistance) / length;
+      }
+    });
+
+    return remaining;
+  }
+
+  /**
+   * Record the user's progress along the route for pace estimation
+   * @param alongDistance Distance from route start in meters
+   * @param timestamp When the position was observed
+   */
+  recordProgress(alongDistance: number, timestamp: Date): void {
+    const time = timestamp.getTime();
+    const previous = this.progressSamples[this.progressSamples.length - 1];
+    const step = this.lastAlongDistance === undefined ? 0 : alongDistance - this.lastAlongDistance;
+
+    this.lastAlongDistance = alongDistance;
+    this.progressSamples.push({ walkedDistance: (previous?.walkedDistance || 0) + step, timestamp: time });
+    this.progressSamples = this.progressSamples.filter(sample => time - sample.timestamp <= PACE_WINDOW_MS);
+  }
+
+  /**
+   * Keep the pace history of the route this one replaces (reroute, switching routes),
+   * so the ETA doesn't fall back to provider estimates after every route change.
+   * The walk between the old route's last sample and this route's first one is not counted.
+   * @param previous Tracker of the replaced route
+   */
+  carryPaceFrom(previous: RouteTracker): void {
+    this.progressSamples = [...previous.progressSamples];
+    this.lastAlongDistance = undefined;
+  }
+
+  /**
+   * Observed pace over the recent progress window
+   * @returns Speed along the route in m/s and the seconds of history it covers, or null if too little history
+   */
+  getObservedPace(): { speed: number; windowSeconds: number } | null {
+    if (this.progressSamples.length < 2) {
+      return null;
+    }
+
+    const first = this.progressSamples[0];
+    const last = this.progressSamples[this.progressSamples.length - 1];
+    const elapsed = last.timestamp - first.timestamp;
+    if (elapsed < MIN_PACE_SAMPLE_MS) {
+      return null;
+    }
+
+    return {
+      speed: Math.max(0, last.walkedDistance - first.walkedDistance) / (elapsed / 1000),
+      windowSeconds: elapsed / 1000
+    };
+  }
+
+  private appendStep(step: RouteStep): void {
+    const geometry = this.parseStepGeometry(step);
+
+    if (geometry.length === 0) {
+      // No geometry - the step sits at the end of whatever came before it
+      const last = this.points.length - 1;
+      this.stepRanges.push({ first: last, last });
+      return;
+    }
+
+    // Consecutive steps share their boundary point; don't duplicate it
+    const previous = this.points[this.points.length - 1];
+    const startsAtPrevious = previous
+      && previous.lat === geometry[0].lat
+      && previous.lng === geometry[0].lng;
+
+    const first = startsAtPrevious ? this.points.length - 1 : this.points.length;
+    this.points.push(...(startsAtPrevious ? geometry.slice(1) : geometry));
+    this.stepRanges.push({ first, last: this.points.length - 1 });
+  }
+
+  /**
+   * Read step geometry from polyline.points, falling back to the step's start and end locations
+   */
+  private parseStepGeometry(step: RouteStep): Coordinates[] {
+    const geometry = decodeGeometry(step.polyline.points);
+    if (geometry.length > 0) {
+      return geometry;
+    }
+
+    return [step.startLocation, step.endLocation].filter(coord => this.isUsableLocation(coord));
+  }
+
+  private isUsableLocation(coord: Coordinates): boolean {
+    // Providers use {lat: 0, lng: 0} as a "not known" placeholder
+    return validateCoordinates(coord) && !(coord.lat === 0 && coord.lng === 0);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Demo Routing Provider
+ * Builds a synthetic three-step route for UI development without any routing backend.
+ * Street names and turns are made up - never enable it for real guidance.
+ */
+
+import { NavigationRoute } from '../../types/navigation.js';
+import { calculateDistance } from '../../utils/distance.js';
+import { encodeRouteGeometry } from '../../utils/geometry.js';
+import { RoutingProvider, RoutingRequest, createRouteId, formatRouteDistance, formatRouteDuration } from './routingProvider.js';
+
+export class DemoRoutingProvider implements RoutingProvider {
+  readonly id = 'demo';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async calculateRoute(request: RoutingRequest): Promise<NavigationRoute> {
+    console.log('🎭 Generating demo route');
+
+    const origin = request.origin;
+    const destination = request.destination;
+    const destinationName = 'Demo Destination';
+
+    const distance = calculateDistance(origin, destination);
+    const durationSeconds = Math.max(300, distance / 1000 * 180); // minimum 5 minutes
+    const durationText = formatRouteDuration(durationSeconds);
+    const firstTurn = { lat: origin.lat + (destination.lat - origin.lat) * 0.3, lng: origin.lng + (destination.lng - origin.lng) * 0.3 };
+    const secondTurn = { lat: origin.lat + (destination.lat - origin.lat) * 0.7, lng: origin.lng + (destination.lng - origin.lng) * 0.7 };
+
+    return {
+      id: createRouteId('demo_route'),
+      startLocation: { ...origin, type: 'start' },
+      endLocation: { ...destination, type: 'destination' },
+      waypoints: [],
+      overview_polyline: encodeRouteGeometry([origin, firstTurn, secondTurn, destination]),
+      distance: {
+        text: formatRouteDistance(distance),
+        value: distance
+      },
+      duration: {
+        text: durationText,
+        value: durationSeconds
+      },
+      legs: [{
+        distance: {
+          text: formatRouteDistance(distance),
+          value: distance
+        },
+        duration: {
+          text: durationText,
+          value: durationSeconds
+        },
+        startLocation: origin,
+        endLocation: destination,
+        startAddress: 'Current Location',
+        endAddress: destinationName,
+        steps: [
+          {
+            distance: { text: `${Math.round(distance * 0.3)} m`, value: distance * 0.3 },
+            duration: { text: formatRouteDuration(durationSeconds * 0.3), value: durationSeconds * 0.3 },
+            startLocation: origin,
+            endLocation: firstTurn,
+            instructions: `Head northeast on Main Street toward ${destinationName}`,
+            maneuver: 'depart',
+            polyline: { points: encodeRouteGeometry([origin, firstTurn]) },
+            travel_mode: 'DRIVING' as const,
+            street_name: 'Main Street'
+          },
+          {
+            distance: { text: `${Math.round(distance * 0.4)} m`, value: distance * 0.4 },
+            duration: { text: formatRouteDuration(durationSeconds * 0.4), value: durationSeconds * 0.4 },
+            startLocation: firstTurn,
+            endLocation: secondTurn,
+            instructions: `Turn right onto Oak Avenue`,
+            maneuver: 'turn',
+            modifier: 'right',
+            polyline: { points: encodeRouteGeometry([firstTurn, secondTurn]) },
+            travel_mode: 'DRIVING' as const,
+            street_name: 'Oak Avenue'
+          },
+          {
+            distance: { text: `${Math.round(distance * 0.3)} m`, value: distance * 0.3 },
+            duration: { text: formatRouteDuration(durationSeconds * 0.3), value: durationSeconds * 0.3 },
+            startLocation: secondTurn,
+            endLocation: destination,
+            instructions: `Continue straight to arrive at ${destinationName}`,
+            maneuver: 'arrive',
+            polyline: { points: encodeRouteGeometry([secondTurn, destination]) },
+            travel_mode: 'DRIVING' as const,
+            street_name: 'Oak Avenue'
+          }
+        ]
+      }],
+      warnings: [
+        'Demo route - External mapping services are currently unavailable',
+        'This provides basic navigation functionality for testing'
+      ]
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Mapbox Routing Provider
+ * Mapbox Directions API v5
+ */
+
+import axios from 'axios';
+import { NavigationRoute, TransportationMode } from '../../types/navigation.js';
+import { RoutingProvider, RoutingRequest, ROUTING_REQUEST_TIMEOUT } from './routingProvider.js';
+import { normalizeOSRMRoute } from './osrmFormat.js';
+
+const MAPBOX_API_BASE = 'https://api.mapbox.com';
+
+const MAPBOX_PROFILES: Partial<Record<TransportationMode, string>> = {
+  walking: 'walking',
+  cycling: 'cycling',
+  driving: 'driving'
+};
+
+const SIDEWALK_WALKWAY_BIAS = 0.8; // -1 avoids walkways, 1 strongly prefers them
+
+export interface MapboxProviderOptions {
+  apiKey?: string;
+  baseUrl?: string; // override for a self-hosted or stand-in server
+}
+
+export class MapboxRoutingProvider implements RoutingProvider {
+  readonly id = 'mapbox';
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
+  constructor(options: MapboxProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.MAPBOX_API_KEY;
+    this.baseUrl = options.baseUrl ?? process.env.MAPBOX_API_BASE_URL ?? MAPBOX_API_BASE;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async calculateRoute(request: RoutingRequest): Promise<NavigationRoute> {
+    const [route] = await this.calculateRoutes({ ...request, alternatives: false });
+    return route;
+  }
+
+  async calculateRoutes(request: RoutingRequest): Promise<NavigationRoute[]> {
+    const profile = this.getProfile(request.mode || 'driving');
+    const coordinates = [request.origin, ...request.waypoints, request.destination]
+      .map(coord => `${coord.lng},${coord.lat}`)
+      .join(';');
+
+    // Build comprehensive request parameters following Mapbox docs
+    const params: any = {
+      access_token: this.apiKey,
+      steps: true, // Get turn-by-turn instructions
+      voice_instructions: true, // Get voice guidance
+      banner_instructions: true, // Get visual guidance
+      geometries: 'geojson',
+      overview: 'full',
+      language: request.language || 'en',
+      voice_units: request.units === 'imperial' ? 'imperial' : 'metric',
+      // Mapbox only computes alternatives between two coordinates
+      alternatives: !!request.alternatives && request.waypoints.length === 0
+    };
+
+    // Add avoidance preferences
+    if (request.avoid && request.avoid.length > 0) {
+      const excludeMap: Record<string, string> = {
+        'highways': 'motorway',
+        'tolls': 'toll',
+        'ferries': 'ferry'
+      };
+      const excludeValues = request.avoid.map(avoid => excludeMap[avoid]).filter(Boolean);
+      if (excludeValues.length > 0) {
+        params.exclude = excludeValues.join(',');
+      }
+    }
+
+    // The walking profile can only be steered toward sidewalks and footpaths; it has no
+    // per-request control over steps, surfaces or crossings
+    if (request.mode === 'walking' && request.pedestrian?.preferSidewalks) {
+      params.walkway_bias = SIDEWALK_WALKWAY_BIAS;
+    }
+
+    console.log('🗺️ Making Mapbox Directions API request:', {
+      profile,
+      coordinates,
+      params: { ...params, access_token: '[HIDDEN]' }
+    });
+
+    const response = await axios.get(
+      `${this.baseUrl}/directions/v5/mapbox/${profile}/${coordinates}`,
+      { params, timeout: ROUTING_REQUEST_TIMEOUT }
+    );
+
+    const routes: any[] = response.data.routes || [];
+    const route = routes[0];
+    if (!route) {
+      throw new Error('No route found');
+    }
+
+    console.log('✅ Mapbox route calculated successfully:', {
+      distance: route.distance,
+      duration: route.duration,
+      legs: route.legs?.length || 0,
+      steps: route.legs?.reduce((total: number, leg: any) => total + (leg.steps?.length || 0), 0) || 0,
+      alternatives: routes.length - 1
+    });
+
+    return routes.map(route => normalizeOSRMRoute(route, request.origin, request.destination));
+  }
+
+  private getProfile(mode: TransportationMode): string {
+    return MAPBOX_PROFILES[mode] || 'driving';
+  }
+}
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { OfflineRoutingProvider } from './offlineProvider.js';
+import { OsmWay, loadOsmExtract, parseGeoJSONExtract } from './osmExtract.js';
+import { RoutingRequest } from './routingProvider.js';
+import { WalkGraph } from './walkGraph.js';
+import { Coordinates } from '../../types/navigation.js';
+
+// Main Street runs east, Oak Avenue north from its end, Elm Street east from Oak's end.
+// Lower Road meets Upper Road by Hill Steps or the longer Ramp Path; One Way Alley may only be walked eastward.
+const FIXTURE_PATH = path.join(__dirname, '__fixtures__', 'smallTown.geojson');
+// Calle Uno runs east and Calle Dos north from its end, with Pasaje Sur leading south off Calle Uno.
+// Stored zlib-compressed with dense nodes and negative lat/lon offsets, as extracts west and south of 0,0 are.
+const PBF_FIXTURE_PATH = path.join(__dirname, '__fixtures__', 'smallTown.osm.pbf');
+const ways: OsmWay[] = parseGeoJSONExtract(JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8')));
+
+function walkingRequest(origin: Coordinates, destination: Coordinates, pedestrian = {}): RoutingRequest {
+  return { origin, destination, waypoints: [], mode: 'walking', pedestrian };
+}
+
+function wayNames(graph: WalkGraph, origin: Coordinates, destination: Coordinates, preferences = {}): string[] {
+  const route = graph.findRoute(origin, destination, preferences);
+  const names = (route?.segments || []).map(segment => segment.way.tags.name);
+  return names.filter((name, i) => name !== names[i - 1]);
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('OfflineRoutingProvider', () => {
+  it('routes a named multi-turn path with turns where the street changes', async () => {
+    const provider = new OfflineRoutingProvider({ extractPath: FIXTURE_PATH });
+    expect(provider.isConfigured()).toBe(true);
+
+    const route = await provider.calculateRoute(walkingRequest(
+      { lat: 52.50002, lng: 13.4005 }, // on Main Street, just east of its start
+      { lat: 52.50202, lng: 13.4055 } // on Elm Street
+    ));
+
+    const steps = route.legs[0].steps;
+    expect(steps.map(step => [step.maneuver, step.modifier, step.street_name])).toEqual([
+      ['depart', undefined, 'Main Street'],
+      ['turn', 'left', 'Oak Avenue'],
+      ['turn', 'right', 'Elm Street'],
+      ['arrive', undefined, 'Elm Street']
+    ]);
+    expect(steps[0].instructions).toBe('Head east on Main Street');
+    expect(steps[1].instructions).toBe('Turn left onto Oak Avenue');
+
+    // 170 m along Main, 222 m up Oak and 170 m along Elm, less the ends before and after the snapped points
+    expect(route.distance.value).toBeGreaterThan(500);
+    expect(route.distance.value).toBeLessThan(580);
+    expect(route.warnings.some(warning => warning.includes('Offline route'))).toBe(true);
+  });
+
+  it('fails when the origin is too far from any walkable way', async () => {
+    const provider = new OfflineRoutingProvider({ ways });
+
+    await expect(provider.calculateRoute(walkingRequest(
+      { lat: 52.51, lng: 13.45 }, // ~3 km east of the fixture
+      { lat: 52.50202, lng: 13.4055 }
+    ))).rejects.toThrow('No walkable path');
+  });
+});
+
+describe('loadOsmExtract from .osm.pbf', () => {
+  it('decodes ways, tags and node coordinates', async () => {
+    const pbfWays = await loadOsmExtract(PBF_FIXTURE_PATH);
+
+    expect(pbfWays.map(way => [way.id, way.tags.name, way.tags.highway])).toEqual([
+      ['101', 'Calle Uno', 'residential'],
+      ['102', 'Calle Dos', 'residential'],
+      ['103', 'Pasaje Sur', 'footway']
+    ]);
+    const calleUno = pbfWays[0].coordinates;
+    expect(calleUno).toHaveLength(3);
+    expect(calleUno[0].lat).toBeCloseTo(-34.6, 9);
+    expect(calleUno[0].lng).toBeCloseTo(-58.38, 9);
+    expect(calleUno[2].lng).toBeCloseTo(-58.378, 9);
+    expect(pbfWays[1].coordinates[2].lat).toBeCloseTo(-34.598, 9);
+  });
+
+  it('routes over the decoded ways', async () => {
+    const provider = new OfflineRoutingProvider({ extractPath: PBF_FIXTURE_PATH });
+
+    const route = await provider.calculateRoute(walkingRequest(
+      { lat: -34.60001, lng: -58.3795 }, // on Calle Uno
+      { lat: -34.5985, lng: -58.37801 } // on Calle Dos
+    ));
+
+    expect(route.legs[0].steps.map(step => [step.maneuver, step.modifier, step.street_name])).toEqual([
+      ['depart', undefined, 'Calle Uno'],
+      ['turn', 'left', 'Calle Dos'],
+      ['arrive', undefined, 'Calle Dos']
+    ]);
+  });
+});
+
+describe('WalkGraph', () => {
+  const graph = new WalkGraph(ways);
+
+  it('returns null for an off-network origin', () => {
+    expect(graph.findRoute({ lat: 52.51, lng: 13.45 }, { lat: 52.50202, lng: 13.4055 })).toBeNull();
+  });
+
+  it('snaps locations a few meters off a way onto it', () => {
+    const route = graph.findRoute({ lat: 52.50005, lng: 13.4005 }, { lat: 52.49995, lng: 13.4025 });
+
+    expect(route).not.toBeNull();
+    expect(route!.segments.every(segment => segment.way.tags.name === 'Main Street')).toBe(true);
+    expect(route!.length).toBeGreaterThan(130);
+    expect(route!.length).toBeLessThan(140); // 0.002 degrees of longitude at 52.5°N
+  });
+
+  it('climbs the steps by default and takes the ramp when steps are avoided', () => {
+    const bottom = { lat: 52.5047, lng: 13.40001 }; // on Lower Road
+    const top = { lat: 52.5063, lng: 13.40001 }; // on Upper Road
+
+    expect(wayNames(graph, bottom, top)).toEqual(['Lower Road', 'Hill Steps', 'Upper Road']);
+    expect(wayNames(graph, bottom, top, { avoidSteps: true })).toEqual(['Lower Road', 'Ramp Path', 'Upper Road']);
+  });
+
+  it('walks oneway:foot ways only in their direction', () => {
+    const west = { lat: 52.51, lng: 13.4001 };
+    const east = { lat: 52.51, lng: 13.4019 };
+
+    expect(wayNames(graph, west, east)).toEqual(['One Way Alley']);
+
+    // Both points are on the alley, so going back west means finishing the alley and coming round
+    const back = graph.findRoute(east, west);
+    expect(wayNames(graph, east, west)).toEqual(['One Way Alley', 'Long Way Round', 'One Way Alley']);
+    expect(back!.segments
+      .filter(segment => segment.way.tags.name === 'One Way Alley')
+      .every(segment => segment.to.lng > segment.from.lng)).toBe(true);
+  });
+});
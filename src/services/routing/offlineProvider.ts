@@ -0,0 +1,220 @@
+/**
+ * Offline Routing Provider
+ * Pedestrian routing over a local OSM extract - no network, real street names and turns
+ */
+
+import fs from 'fs';
+import { Coordinates, NavigationRoute, TransportationMode } from '../../types/navigation.js';
+import { calculateBearing } from '../../utils/distance.js';
+import { toGeoJSONLineString } from '../../utils/geometry.js';
+import { RoutingProvider, RoutingRequest } from './routingProvider.js';
+import { normalizeOSRMRoute } from './osrmFormat.js';
+import { OsmWay, loadOsmExtract } from './osmExtract.js';
+import { PathSegment, WalkGraph } from './walkGraph.js';
+
+const WALKING_SPEED = 1.4; // m/s
+const STEPS_SPEED = 0.6; // m/s - stairs are slow going
+const SAME_STREET_TURN_ANGLE = 60; // degrees - a bend sharper than this on one street is announced as a turn
+
+// What to call a way with no name or ref, so instructions never invent street names
+const UNNAMED_WAY_DESCRIPTIONS: Record<string, string> = {
+  footway: 'the footpath',
+  path: 'the path',
+  pedestrian: 'the pedestrian street',
+  steps: 'the steps',
+  cycleway: 'the cycle path',
+  track: 'the track',
+  service: 'the service road',
+  living_street: 'the street',
+  residential: 'the street'
+};
+
+export interface OfflineProviderOptions {
+  extractPath?: string; // .osm.pbf or GeoJSON extract
+  ways?: OsmWay[]; // pre-loaded ways, e.g. a small fixture
+}
+
+// Consecutive path segments that become one step
+interface StepDraft {
+  name: string;
+  segments: PathSegment[];
+}
+
+export class OfflineRoutingProvider implements RoutingProvider {
+  readonly id = 'offline';
+  readonly supportedModes: TransportationMode[] = ['walking'];
+  private extractPath: string | undefined;
+  private ways: OsmWay[] | undefined;
+  private graph?: Promise<WalkGraph>;
+
+  constructor(options: OfflineProviderOptions = {}) {
+    this.extractPath = options.extractPath ?? process.env.OFFLINE_ROUTING_EXTRACT;
+    this.ways = options.ways;
+  }
+
+  isConfigured(): boolean {
+    return !!this.ways || (!!this.extractPath && fs.existsSync(this.extractPath));
+  }
+
+  async calculateRoute(request: RoutingRequest): Promise<NavigationRoute> {
+    const graph = await this.getGraph();
+    const stops = [request.origin, ...request.waypoints, request.destination];
+    const legs: any[] = [];
+    const coordinates: Coordinates[] = [];
+
+    for (let i = 0; i < stops.length - 1; i++) {
+      const path = graph.findRoute(stops[i], stops[i + 1], request.pedestrian);
+      if (!path) {
+        throw new Error(`No walkable path in the offline extract between stop ${i + 1} and stop ${i + 2}`);
+      }
+
+      legs.push(this.buildLeg(path.segments));
+      path.segments.forEach((segment, j) => {
+        if (j === 0 && coordinates.length === 0) coordinates.push(segment.from);
+        coordinates.push(segment.to);
+      });
+    }
+
+    const route = normalizeOSRMRoute({
+      distance: legs.reduce((total, leg) => total + leg.distance, 0),
+      duration: legs.reduce((total, leg) => total + leg.duration, 0),
+      geometry: toGeoJSONLineString(coordinates),
+      legs
+    }, request.origin, request.destination);
+
+    route.warnings.push('Offline route from a local map extract - traffic, closures and construction are not known');
+    return route;
+  }
+
+  private getGraph(): Promise<WalkGraph> {
+    if (!this.graph) {
+      this.graph = this.loadGraph();
+      // Let a failed load be retried on the next request
+      this.graph.catch(() => { this.graph = undefined; });
+    }
+    return this.graph;
+  }
+
+  private async loadGraph(): Promise<WalkGraph> {
+    const started = Date.now();
+    const ways = this.ways ?? await loadOsmExtract(this.extractPath as string);
+    const graph = new WalkGraph(ways);
+
+    console.log(`🗺️ Offline walk graph ready: ${graph.getWayCount()} ways, ${graph.getNodeCount()} nodes (${Date.now() - started}ms)`);
+    return graph;
+  }
+
+  /**
+   * Turn a path into an OSRM-format leg: one step per street, with turns where the street changes
+   * or bends sharply, then an arrive step
+   */
+  private buildLeg(segments: PathSegment[]): any {
+    const drafts: StepDraft[] = [];
+
+    for (const segment of segments) {
+      const name = describeWay(segment.way);
+      const current = drafts[drafts.length - 1];
+      const previous = current?.segments[current.segments.length - 1];
+
+      const sameStreet = current && current.name === name;
+      const sharpBend = previous && Math.abs(turnAngle(previous, segment)) > SAME_STREET_TURN_ANGLE;
+
+      if (current && sameStreet && !sharpBend) {
+        current.segments.push(segment);
+      } else {
+        drafts.push({ name, segments: [segment] });
+      }
+    }
+
+    const steps = drafts.map((draft, i) => this.buildStep(draft, drafts[i - 1]));
+    const last = segments[segments.length - 1];
+    const arrival = last ? last.to : undefined;
+
+    if (arrival) {
+      steps.push({
+        distance: 0,
+        duration: 0,
+        name: drafts[drafts.length - 1].name,
+        crossings: 0,
+        geometry: toGeoJSONLineString([arrival, arrival]),
+        maneuver: { type: 'arrive', location: [arrival.lng, arrival.lat] }
+      });
+    }
+
+    return {
+      distance: steps.reduce((total, step) => total + step.distance, 0),
+      duration: steps.reduce((total, step) => total + step.duration, 0),
+      steps
+    };
+  }
+
+  private buildStep(draft: StepDraft, previous: StepDraft | undefined): any {
+    const first = draft.segments[0];
+    const distance = draft.segments.reduce((total, segment) => total + segment.length, 0);
+    const duration = draft.segments.reduce(
+      (total, segment) => total + segment.length / (segment.way.tags.highway === 'steps' ? STEPS_SPEED : WALKING_SPEED),
+      0
+    );
+    const bearingAfter = calculateBearing(first.from, first.to);
+
+    let maneuver: any;
+    if (!previous) {
+      maneuver = { type: 'depart', bearing_after: Math.round(bearingAfter) };
+    } else {
+      const lastSegment = previous.segments[previous.segments.length - 1];
+      const modifier = getTurnModifier(turnAngle(lastSegment, first));
+      const type = previous.name === draft.name
+        ? 'continue'
+        : modifier === 'straight' ? 'new name' : 'turn';
+      maneuver = { type, modifier, bearing_after: Math.round(bearingAfter) };
+    }
+    maneuver.location = [first.from.lng, first.from.lat];
+
+    // Crossings the extract maps as their own ways; each way crossed counts once
+    const crossingWays = new Set(draft.segments.filter(segment => isCrossingWay(segment.way)).map(segment => segment.way.id));
+
+    return {
+      distance,
+      duration,
+      crossings: crossingWays.size,
+      name: draft.name,
+      geometry: toGeoJSONLineString([first.from, ...draft.segments.map(segment => segment.to)]),
+      maneuver
+    };
+  }
+}
+
+/**
+ * Name to speak for a way: its name, else its ref, else a description of what it is
+ */
+function describeWay(way: OsmWay): string {
+  if (way.tags.name) return way.tags.name;
+  if (way.tags.ref) return way.tags.ref;
+  if (isCrossingWay(way)) return 'the crossing';
+  if (way.tags.footway === 'sidewalk') return 'the sidewalk';
+  return UNNAMED_WAY_DESCRIPTIONS[way.tags.highway] || 'an unnamed road';
+}
+
+function isCrossingWay(way: OsmWay): boolean {
+  return way.tags.footway === 'crossing' || way.tags.highway === 'crossing';
+}
+
+/**
+ * Signed change of direction between two segments in degrees (-180..180, positive = right)
+ */
+function turnAngle(from: PathSegment, to: PathSegment): number {
+  const before = calculateBearing(from.from, from.to);
+  const after = calculateBearing(to.from, to.to);
+  return ((after - before + 540) % 360) - 180;
+}
+
+function getTurnModifier(angle: number): string {
+  const magnitude = Math.abs(angle);
+  const side = angle > 0 ? 'right' : 'left';
+
+  if (magnitude < 20) return 'straight';
+  if (magnitude < 60) return `slight ${side}`;
+  if (magnitude < 135) return side;
+  if (magnitude < 170) return `sharp ${side}`;
+  return 'uturn';
+}
@@ -0,0 +1,249 @@
+/**
+ * OpenRouteService Routing Provider
+ * ORS v2 directions, normalizing its segment/step response into NavigationRoute
+ */
+
+import axios from 'axios';
+import { Coordinates, NavigationRoute, PedestrianPreferences, RouteLeg, RouteStep, TransportationMode } from '../../types/navigation.js';
+import { CoordinateSequence, decodeGeometry, encodeRouteGeometry, sliceGeometry } from '../../utils/geometry.js';
+import { cleanInstruction } from '../../utils/instructions.js';
+import {
+  MatrixRequest,
+  RoutingProvider,
+  RoutingRequest,
+  ROUTING_REQUEST_TIMEOUT,
+  TravelMatrix,
+  createRouteId,
+  formatRouteDistance,
+  formatRouteDuration,
+  readMatrixRows
+} from './routingProvider.js';
+
+const ORS_API_BASE = 'https://api.openrouteservice.org';
+
+// ORS instruction type codes mapped to our standard maneuver names
+const ORS_MANEUVERS: Record<number, string> = {
+  0: 'continue',
+  1: 'turn-right',
+  2: 'turn-left',
+  3: 'turn-sharp-right',
+  4: 'turn-sharp-left',
+  5: 'turn-slight-right',
+  6: 'turn-slight-left',
+  7: 'continue',
+  8: 'uturn-left',
+  9: 'arrive',
+  10: 'arrive-left',
+  11: 'arrive-right'
+};
+
+const MAX_ALTERNATIVES = 2;
+
+const ORS_PROFILES: Partial<Record<TransportationMode, string>> = {
+  walking: 'foot-walking',
+  cycling: 'cycling-regular',
+  driving: 'driving-car'
+};
+
+export interface ORSProviderOptions {
+  apiKey?: string;
+  baseUrl?: string; // override for a self-hosted or stand-in server
+}
+
+export class OpenRouteServiceProvider implements RoutingProvider {
+  readonly id = 'ors';
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
+  constructor(options: ORSProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.OPENROUTESERVICE_API_KEY;
+    this.baseUrl = options.baseUrl ?? process.env.ORS_API_BASE_URL ?? ORS_API_BASE;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async calculateRoute(request: RoutingRequest): Promise<NavigationRoute> {
+    const [route] = await this.calculateRoutes({ ...request, alternatives: false });
+    return route;
+  }
+
+  async calculateRoutes(request: RoutingRequest): Promise<NavigationRoute[]> {
+    const preferences = request.mode === 'walking' ? request.pedestrian : undefined;
+    const profile = this.getProfile(request.mode || 'driving', preferences);
+    const coordinates = [request.origin, ...request.waypoints, request.destination]
+      .map(coord => [coord.lng, coord.lat]);
+
+    const body: any = {
+      coordinates,
+      instructions: true,
+      maneuvers: true,
+      units: 'm',
+      language: 'en'
+    };
+
+    const options = preferences && this.getPedestrianOptions(preferences, profile);
+    if (options) {
+      body.options = options;
+    }
+
+    // ORS only computes alternatives between two coordinates
+    if (request.alternatives && request.waypoints.length === 0) {
+      body.alternative_routes = { target_count: MAX_ALTERNATIVES + 1 };
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/v2/directions/${profile}`,
+      body,
+      {
+        headers: {
+          'Authorization': this.apiKey,
+          'Content-Type': 'application/json'
+        },
+        timeout: ROUTING_REQUEST_TIMEOUT
+      }
+    );
+
+    const routes: any[] = response.data.routes || [];
+    if (routes.length === 0) {
+      throw new Error('No route found');
+    }
+
+    return routes.map(route => this.normalizeRoute(route, request.origin, request.destination));
+  }
+
+  async calculateMatrix(request: MatrixRequest): Promise<TravelMatrix> {
+    const preferences = request.mode === 'walking' ? request.pedestrian : undefined;
+    const profile = this.getProfile(request.mode || 'driving', preferences);
+
+    const response = await axios.post(
+      `${this.baseUrl}/v2/matrix/${profile}`,
+      {
+        locations: request.locations.map(coord => [coord.lng, coord.lat]),
+        metrics: ['duration', 'distance'],
+        units: 'm'
+      },
+      {
+        headers: {
+          'Authorization': this.apiKey,
+          'Content-Type': 'application/json'
+        },
+        timeout: ROUTING_REQUEST_TIMEOUT
+      }
+    );
+
+    const durations = readMatrixRows(response.data.durations);
+    const distances = readMatrixRows(response.data.distances);
+    if (!durations || !distances) {
+      throw new Error('No matrix returned');
+    }
+
+    return { durations, distances, source: this.id };
+  }
+
+  private normalizeRoute(route: any, origin: Coordinates, destination: Coordinates): NavigationRoute {
+    // ORS returns the whole route as one encoded polyline; steps reference it by vertex index
+    const geometry = decodeGeometry(route.geometry, 5);
+
+    return {
+      id: createRouteId(),
+      startLocation: {
+        ...origin,
+        type: 'start'
+      },
+      endLocation: {
+        ...destination,
+        type: 'destination'
+      },
+      waypoints: [],
+      overview_polyline: encodeRouteGeometry(geometry),
+      distance: {
+        text: formatRouteDistance(route.summary.distance),
+        value: route.summary.distance
+      },
+      duration: {
+        text: formatRouteDuration(route.summary.duration),
+        value: route.summary.duration
+      },
+      legs: route.segments?.map((segment: any) => this.normalizeSegment(segment, geometry)) || [],
+      warnings: route.warnings || []
+    };
+  }
+
+  private normalizeSegment(segment: any, routeGeometry: CoordinateSequence): RouteLeg {
+    const steps: RouteStep[] = segment.steps?.map((step: any) => this.normalizeStep(step, routeGeometry)) || [];
+
+    return {
+      distance: {
+        text: formatRouteDistance(segment.distance),
+        value: segment.distance
+      },
+      duration: {
+        text: formatRouteDuration(segment.duration),
+        value: segment.duration
+      },
+      startLocation: steps[0]?.startLocation || { lat: 0, lng: 0 },
+      endLocation: steps[steps.length - 1]?.endLocation || { lat: 0, lng: 0 },
+      startAddress: '',
+      endAddress: '',
+      steps
+    };
+  }
+
+  private normalizeStep(step: any, routeGeometry: CoordinateSequence): RouteStep {
+    const instruction = cleanInstruction(step.instruction);
+    const [fromIndex, toIndex] = Array.isArray(step.way_points) ? step.way_points : [-1, -1];
+    const geometry = sliceGeometry(routeGeometry, fromIndex, toIndex);
+    const startLocation = geometry[0] || { lat: 0, lng: 0 };
+    const endLocation = geometry[geometry.length - 1] || startLocation;
+
+    return {
+      distance: {
+        text: `${step.distance} m`,
+        value: step.distance
+      },
+      duration: {
+        text: formatRouteDuration(step.duration),
+        value: step.duration
+      },
+      startLocation,
+      endLocation,
+      instructions: instruction,
+      maneuver: ORS_MANEUVERS[step.type] || 'continue',
+      polyline: {
+        points: encodeRouteGeometry(geometry)
+      },
+      travel_mode: 'DRIVING'
+    };
+  }
+
+  private getProfile(mode: TransportationMode, preferences?: PedestrianPreferences): string {
+    // Only the wheelchair profile can restrict surfaces; it also keeps to sidewalks and lowered kerbs
+    if (mode === 'walking' && preferences?.avoidUnpaved) {
+      return 'wheelchair';
+    }
+    return ORS_PROFILES[mode] || 'driving-car';
+  }
+
+  /**
+   * Map pedestrian preferences onto ORS route options. ORS has no notion of signalized crossings,
+   * so that preference is left to providers that do.
+   */
+  private getPedestrianOptions(preferences: PedestrianPreferences, profile: string): any | undefined {
+    const options: any = {};
+
+    if (preferences.avoidSteps) {
+      options.avoid_features = ['steps'];
+    }
+
+    if (profile === 'wheelchair') {
+      options.profile_params = { restrictions: { surface_type: 'paved' } };
+    } else if (preferences.minimizeCrossings || preferences.preferSidewalks) {
+      // The quiet weighting steers away from busy roads: fewer of them to cross, less walking beside traffic
+      options.profile_params = { weightings: { quiet: 1 } };
+    }
+
+    return Object.keys(options).length > 0 ? options : undefined;
+  }
+}
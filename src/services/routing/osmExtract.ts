@@ -0,0 +1,357 @@
+/**
+ * OSM Extract Loader
+ * Reads ways from a local OpenStreetMap extract (.osm.pbf or GeoJSON) for offline routing
+ */
+
+import fs from 'fs';
+import zlib from 'zlib';
+import { Coordinates } from '../../types/navigation.js';
+
+// A way from the extract with the tags routing cares about
+export interface OsmWay {
+  id: string;
+  tags: Record<string, string>;
+  coordinates: Coordinates[];
+}
+
+/**
+ * Load the ways from an extract file, choosing the parser by extension
+ * @param filePath Path to a .pbf, .geojson or .json file
+ * @returns Ways with at least two coordinates and a highway tag
+ */
+export async function loadOsmExtract(filePath: string): Promise<OsmWay[]> {
+  const data = await fs.promises.readFile(filePath);
+
+  const ways = filePath.toLowerCase().endsWith('.pbf')
+    ? parseOsmPbf(data)
+    : parseGeoJSONExtract(JSON.parse(data.toString('utf8')));
+
+  return ways.filter(way => way.coordinates.length >= 2 && !!way.tags.highway);
+}
+
+/**
+ * Read ways from a GeoJSON FeatureCollection of LineStrings/MultiLineStrings, as produced by
+ * osmtogeojson, osmium export or ogr2ogr (whose extra tags arrive packed in "other_tags")
+ * @param geojson Parsed GeoJSON
+ */
+export function parseGeoJSONExtract(geojson: any): OsmWay[] {
+  const ways: OsmWay[] = [];
+  const features: any[] = Array.isArray(geojson?.features) ? geojson.features : [];
+
+  features.forEach((feature, index) => {
+    const geometry = feature?.geometry;
+    if (!geometry) return;
+
+    const tags = readFeatureTags(feature.properties || {});
+    const id = String(feature.id ?? tags['@id'] ?? tags.osm_id ?? `feature_${index}`);
+    const lines: number[][][] = geometry.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+
+    lines.forEach((line, part) => {
+      ways.push({
+        id: lines.length > 1 ? `${id}_${part}` : id,
+        tags,
+        coordinates: line
+          .filter(position => Array.isArray(position) && position.length >= 2)
+          .map(position => ({ lat: position[1], lng: position[0] }))
+      });
+    });
+  });
+
+  return ways;
+}
+
+/**
+ * Read ways from an OSM PBF file. Handles zlib-compressed and raw blocks with plain or dense nodes;
+ * relations are ignored. Every node is held in memory, so this suits city-sized extracts.
+ * @param data File contents
+ */
+export function parseOsmPbf(data: Buffer): OsmWay[] {
+  const nodes = new Map<number, Coordinates>();
+  const pendingWays: { id: number; tags: Record<string, string>; refs: number[] }[] = [];
+  let offset = 0;
+
+  while (offset + 4 <= data.length) {
+    const headerLength = data.readUInt32BE(offset);
+    offset += 4;
+    const header = readBlobHeader(data.subarray(offset, offset + headerLength));
+    offset += headerLength;
+    const blob = data.subarray(offset, offset + header.dataSize);
+    offset += header.dataSize;
+
+    if (header.type !== 'OSMData') {
+      continue; // OSMHeader carries nothing routing needs
+    }
+
+    readPrimitiveBlock(readBlob(blob), nodes, pendingWays);
+  }
+
+  return pendingWays.map(way => ({
+    id: String(way.id),
+    tags: way.tags,
+    coordinates: way.refs
+      .map(ref => nodes.get(ref))
+      .filter((coord): coord is Coordinates => coord !== undefined)
+  }));
+}
+
+function readFeatureTags(properties: Record<string, any>): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const source = properties.tags && typeof properties.tags === 'object' ? properties.tags : properties;
+
+  for (const [key, value] of Object.entries(source)) {
+    if (value !== null && value !== undefined && typeof value !== 'object') {
+      tags[key] = String(value);
+    }
+  }
+
+  // ogr2ogr: other_tags = "foot"=>"yes","surface"=>"asphalt"
+  if (typeof properties.other_tags === 'string') {
+    for (const match of properties.other_tags.matchAll(/"([^"]+)"=>"([^"]*)"/g)) {
+      tags[match[1]] = match[2];
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Minimal protocol buffers reader - just the wire types OSM PBF uses
+ */
+class ProtoReader {
+  private pos: number;
+
+  constructor(private buf: Buffer, start: number = 0, private end: number = buf.length) {
+    this.pos = start;
+  }
+
+  hasMore(): boolean {
+    return this.pos < this.end;
+  }
+
+  readTag(): { field: number; wireType: number } {
+    const tag = this.readVarint();
+    return { field: Math.floor(tag / 8), wireType: tag % 8 };
+  }
+
+  // Uses float arithmetic so 64-bit values up to 2^53 (all OSM ids and coordinates) stay exact
+  readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+
+    do {
+      byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte >= 0x80);
+
+    return result;
+  }
+
+  // int64 fields are two's complement, so negative values arrive as 10-byte varints at or above 2^63
+  readInt64(): number {
+    let result = 0n;
+    let shift = 0n;
+    let byte: number;
+
+    do {
+      byte = this.buf[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      shift += 7n;
+    } while (byte >= 0x80);
+
+    return Number(BigInt.asIntN(64, result));
+  }
+
+  readSVarint(): number {
+    const value = this.readVarint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  readBytes(): Buffer {
+    const length = this.readVarint();
+    const bytes = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  readPacked(signed: boolean = false): number[] {
+    const bytes = this.readBytes();
+    const reader = new ProtoReader(bytes);
+    const values: number[] = [];
+    while (reader.hasMore()) {
+      values.push(signed ? reader.readSVarint() : reader.readVarint());
+    }
+    return values;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) this.readVarint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.pos += this.readVarint();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+}
+
+function readBlobHeader(buf: Buffer): { type: string; dataSize: number } {
+  const reader = new ProtoReader(buf);
+  let type = '';
+  let dataSize = 0;
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) type = reader.readBytes().toString('utf8');
+    else if (field === 3) dataSize = reader.readVarint();
+    else reader.skip(wireType);
+  }
+
+  return { type, dataSize };
+}
+
+function readBlob(buf: Buffer): Buffer {
+  const reader = new ProtoReader(buf);
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) return reader.readBytes(); // raw
+    if (field === 3) return zlib.inflateSync(reader.readBytes()); // zlib_data
+    if (field === 4 || field === 6 || field === 7) {
+      throw new Error('Unsupported PBF compression - re-encode the extract with zlib (osmium cat -o out.osm.pbf)');
+    }
+    reader.skip(wireType);
+  }
+
+  return Buffer.alloc(0);
+}
+
+function readPrimitiveBlock(
+  buf: Buffer,
+  nodes: Map<number, Coordinates>,
+  ways: { id: number; tags: Record<string, string>; refs: number[] }[]
+): void {
+  const reader = new ProtoReader(buf);
+  const strings: string[] = [];
+  const groups: Buffer[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      const table = new ProtoReader(reader.readBytes());
+      while (table.hasMore()) {
+        const tag = table.readTag();
+        if (tag.field === 1) strings.push(table.readBytes().toString('utf8'));
+        else table.skip(tag.wireType);
+      }
+    } else if (field === 2) {
+      groups.push(reader.readBytes()); // parsed after the whole block so offsets are known
+    } else if (field === 17) {
+      granularity = reader.readVarint();
+    } else if (field === 19) {
+      latOffset = reader.readInt64();
+    } else if (field === 20) {
+      lonOffset = reader.readInt64();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const toCoordinates = (lat: number, lon: number): Coordinates => ({
+    lat: 1e-9 * (latOffset + granularity * lat),
+    lng: 1e-9 * (lonOffset + granularity * lon)
+  });
+
+  for (const group of groups) {
+    const groupReader = new ProtoReader(group);
+    while (groupReader.hasMore()) {
+      const { field, wireType } = groupReader.readTag();
+      if (field === 1) readNode(groupReader.readBytes(), nodes, toCoordinates);
+      else if (field === 2) readDenseNodes(groupReader.readBytes(), nodes, toCoordinates);
+      else if (field === 3) ways.push(readWay(groupReader.readBytes(), strings));
+      else groupReader.skip(wireType);
+    }
+  }
+}
+
+function readNode(
+  buf: Buffer,
+  nodes: Map<number, Coordinates>,
+  toCoordinates: (lat: number, lon: number) => Coordinates
+): void {
+  const reader = new ProtoReader(buf);
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) id = reader.readSVarint();
+    else if (field === 8) lat = reader.readSVarint();
+    else if (field === 9) lon = reader.readSVarint();
+    else reader.skip(wireType);
+  }
+
+  nodes.set(id, toCoordinates(lat, lon));
+}
+
+function readDenseNodes(
+  buf: Buffer,
+  nodes: Map<number, Coordinates>,
+  toCoordinates: (lat: number, lon: number) => Coordinates
+): void {
+  const reader = new ProtoReader(buf);
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) ids = reader.readPacked(true);
+    else if (field === 8) lats = reader.readPacked(true);
+    else if (field === 9) lons = reader.readPacked(true);
+    else reader.skip(wireType);
+  }
+
+  // Dense nodes are delta-encoded
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i];
+    lat += lats[i];
+    lon += lons[i];
+    nodes.set(id, toCoordinates(lat, lon));
+  }
+}
+
+function readWay(buf: Buffer, strings: string[]): { id: number; tags: Record<string, string>; refs: number[] } {
+  const reader = new ProtoReader(buf);
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let refDeltas: number[] = [];
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) id = reader.readVarint();
+    else if (field === 2) keys = reader.readPacked();
+    else if (field === 3) vals = reader.readPacked();
+    else if (field === 8) refDeltas = reader.readPacked(true);
+    else reader.skip(wireType);
+  }
+
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => {
+    tags[strings[key]] = strings[vals[i]];
+  });
+
+  let ref = 0;
+  const refs = refDeltas.map(delta => (ref += delta));
+
+  return { id, tags, refs };
+}
@@ -0,0 +1,163 @@
+/**
+ * OSRM Response Format
+ * Normalizes the OSRM route format shared by Mapbox Directions, OSRM and Valhalla (format=osrm)
+ */
+
+import { Coordinates, NavigationRoute, RouteLeg, RouteStep } from '../../types/navigation.js';
+import { getCompassDirection } from '../../utils/distance.js';
+import { decodeGeometry, encodeRouteGeometry } from '../../utils/geometry.js';
+import { cleanInstruction } from '../../utils/instructions.js';
+import { createRouteId, formatRouteDistance, formatRouteDuration } from './routingProvider.js';
+
+// Verb phrases for OSRM maneuver types; the modifier ("left", "slight right") is appended
+const OSRM_MANEUVER_PHRASES: Record<string, string> = {
+  'turn': 'Turn',
+  'new name': 'Continue',
+  'continue': 'Continue',
+  'merge': 'Merge',
+  'on ramp': 'Take the ramp',
+  'off ramp': 'Take the exit',
+  'fork': 'Keep',
+  'end of road': 'At the end of the road, turn',
+  'roundabout': 'Enter the roundabout',
+  'rotary': 'Enter the roundabout',
+  'roundabout turn': 'At the roundabout, turn',
+  'exit roundabout': 'Exit the roundabout',
+  'exit rotary': 'Exit the roundabout',
+  'notification': 'Continue'
+};
+
+/**
+ * Normalize an OSRM-format route (Mapbox Directions, OSRM, Valhalla with format=osrm) into a NavigationRoute
+ * @param route Route object from the response's routes array, requested with geometries=geojson or polyline6
+ * @param origin Requested origin
+ * @param destination Requested destination
+ */
+export function normalizeOSRMRoute(route: any, origin: Coordinates, destination: Coordinates): NavigationRoute {
+  return {
+    id: createRouteId(),
+    startLocation: {
+      ...origin,
+      type: 'start'
+    },
+    endLocation: {
+      ...destination,
+      type: 'destination'
+    },
+    waypoints: [],
+    overview_polyline: encodeRouteGeometry(decodeGeometry(route.geometry)),
+    distance: {
+      text: formatRouteDistance(route.distance),
+      value: route.distance
+    },
+    duration: {
+      text: formatRouteDuration(route.duration),
+      value: route.duration
+    },
+    legs: route.legs?.map((leg: any) => normalizeOSRMLeg(leg)) || [],
+    warnings: route.warnings || []
+  };
+}
+
+function normalizeOSRMLeg(leg: any): RouteLeg {
+  const steps: RouteStep[] = leg.steps?.map((step: any) => normalizeOSRMStep(step)) || [];
+
+  return {
+    distance: {
+      text: formatRouteDistance(leg.distance),
+      value: leg.distance
+    },
+    duration: {
+      text: formatRouteDuration(leg.duration),
+      value: leg.duration
+    },
+    startLocation: steps[0]?.startLocation || { lat: 0, lng: 0 },
+    endLocation: steps[steps.length - 1]?.endLocation || { lat: 0, lng: 0 },
+    startAddress: '',
+    endAddress: '',
+    steps
+  };
+}
+
+function normalizeOSRMStep(step: any): RouteStep {
+  // Mapbox and Valhalla include instruction text; a plain OSRM server only sends the maneuver
+  const instruction = cleanInstruction(step.maneuver?.instruction || buildOSRMInstruction(step));
+  const geometry = decodeGeometry(step.geometry);
+
+  // Extract coordinates from geometry, falling back to the maneuver point
+  const maneuverLocation = Array.isArray(step.maneuver?.location)
+    ? { lat: step.maneuver.location[1], lng: step.maneuver.location[0] }
+    : { lat: 0, lng: 0 };
+  const startLocation = geometry[0] || maneuverLocation;
+  const endLocation = geometry[geometry.length - 1] || startLocation;
+
+  return {
+    distance: {
+      text: step.distance > 1000
+        ? `${(step.distance / 1000).toFixed(1)} km`
+        : `${Math.round(step.distance)} m`,
+      value: step.distance
+    },
+    duration: {
+      text: formatRouteDuration(step.duration),
+      value: step.duration
+    },
+    startLocation,
+    endLocation,
+    instructions: instruction,
+    maneuver: step.maneuver?.type || 'continue',
+    polyline: {
+      points: encodeRouteGeometry(geometry)
+    },
+    travel_mode: 'DRIVING',
+    // Store additional Mapbox-format data for enhanced navigation
+    voice_instructions: step.voiceInstructions || [],
+    banner_instructions: step.bannerInstructions || [],
+    modifier: step.maneuver?.modifier,
+    street_name: step.name,
+    reference: step.ref,
+    destinations: step.destinations,
+    exits: step.exits,
+    crossings: step.crossings // not part of the OSRM format - set by providers that know them, e.g. offline
+  };
+}
+
+/**
+ * Build instruction text for a step from its maneuver, for servers that don't send any
+ * @param step OSRM route step
+ * @returns Instruction such as "Turn left onto Main Street"
+ */
+export function buildOSRMInstruction(step: any): string {
+  const maneuver = step.maneuver || {};
+  const name: string = step.name || '';
+  const modifier: string | undefined = maneuver.modifier;
+
+  if (maneuver.type === 'depart') {
+    const heading = typeof maneuver.bearing_after === 'number'
+      ? ` ${getCompassDirection(maneuver.bearing_after, false).replace('-', '')}`
+      : '';
+    return `Head${heading}${name ? ` on ${name}` : ''}`;
+  }
+
+  if (maneuver.type === 'arrive') {
+    return 'You have arrived at your destination';
+  }
+
+  if ((maneuver.type === 'roundabout' || maneuver.type === 'rotary') && maneuver.exit) {
+    return `At the roundabout, take exit ${maneuver.exit}${name ? ` onto ${name}` : ''}`;
+  }
+
+  if (maneuver.type === 'continue' && modifier && modifier !== 'straight' && modifier !== 'uturn' && name) {
+    return `Turn ${modifier} to stay on ${name}`;
+  }
+
+  if (modifier === 'uturn') {
+    return `Make a U-turn${name ? ` onto ${name}` : ''}`;
+  }
+
+  const phrase = OSRM_MANEUVER_PHRASES[maneuver.type] || 'Continue';
+  const direction = modifier ? ` ${modifier}` : '';
+  const preposition = maneuver.type === 'new name' || maneuver.type === 'continue' ? 'on' : 'onto';
+
+  return `${phrase}${direction}${name ? ` ${preposition} ${name}` : ''}`;
+}
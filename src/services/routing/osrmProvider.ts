@@ -0,0 +1,112 @@
+/**
+ * OSRM Routing Provider
+ * Self-hosted OSRM HTTP server (osrm-routed), so user locations never leave our infrastructure
+ */
+
+import axios from 'axios';
+import { NavigationRoute, TransportationMode } from '../../types/navigation.js';
+import {
+  MatrixRequest,
+  RoutingProvider,
+  RoutingRequest,
+  ROUTING_REQUEST_TIMEOUT,
+  TravelMatrix,
+  readMatrixRows
+} from './routingProvider.js';
+import { normalizeOSRMRoute } from './osrmFormat.js';
+
+// Profile names used by the stock OSRM car/bicycle/foot profiles
+const OSRM_PROFILES: Partial<Record<TransportationMode, string>> = {
+  walking: 'foot',
+  cycling: 'bike',
+  driving: 'car'
+};
+
+export interface OSRMProviderOptions {
+  baseUrl?: string; // e.g. http://localhost:5000
+  profileUrls?: Partial<Record<TransportationMode, string>>; // one osrm-routed per profile is common
+}
+
+export class OSRMRoutingProvider implements RoutingProvider {
+  readonly id = 'osrm';
+  private baseUrl: string | undefined;
+  private profileUrls: Partial<Record<TransportationMode, string>>;
+
+  constructor(options: OSRMProviderOptions = {}) {
+    this.baseUrl = options.baseUrl ?? process.env.OSRM_BASE_URL;
+    this.profileUrls = options.profileUrls ?? {
+      walking: process.env.OSRM_WALKING_URL,
+      cycling: process.env.OSRM_CYCLING_URL,
+      driving: process.env.OSRM_DRIVING_URL
+    };
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl || Object.values(this.profileUrls).some(Boolean);
+  }
+
+  async calculateRoute(request: RoutingRequest): Promise<NavigationRoute> {
+    const [route] = await this.calculateRoutes({ ...request, alternatives: false });
+    return route;
+  }
+
+  async calculateRoutes(request: RoutingRequest): Promise<NavigationRoute[]> {
+    const mode = request.mode || 'driving';
+    const baseUrl = this.getBaseUrl(mode);
+    const profile = OSRM_PROFILES[mode] || 'car';
+    const coordinates = [request.origin, ...request.waypoints, request.destination]
+      .map(coord => `${coord.lng},${coord.lat}`)
+      .join(';');
+
+    // OSRM profiles are compiled into the routing graph, so walking preferences (steps, surfaces,
+    // crossings) cannot be applied per request - build the foot profile with them instead
+    const params = {
+      steps: true,
+      geometries: 'geojson',
+      overview: 'full',
+      // OSRM only computes alternatives between two coordinates
+      alternatives: !!request.alternatives && request.waypoints.length === 0
+    };
+
+    console.log('🗺️ Making OSRM route request:', { baseUrl, profile, coordinates, params });
+
+    const response = await axios.get(
+      `${baseUrl}/route/v1/${profile}/${coordinates}`,
+      { params, timeout: ROUTING_REQUEST_TIMEOUT }
+    );
+
+    if (response.data.code !== 'Ok' || !response.data.routes?.length) {
+      throw new Error(`OSRM returned ${response.data.code || 'no routes'}${response.data.message ? `: ${response.data.message}` : ''}`);
+    }
+
+    return response.data.routes.map((route: any) => normalizeOSRMRoute(route, request.origin, request.destination));
+  }
+
+  async calculateMatrix(request: MatrixRequest): Promise<TravelMatrix> {
+    const mode = request.mode || 'driving';
+    const baseUrl = this.getBaseUrl(mode);
+    const profile = OSRM_PROFILES[mode] || 'car';
+    const coordinates = request.locations.map(coord => `${coord.lng},${coord.lat}`).join(';');
+
+    const response = await axios.get(
+      `${baseUrl}/table/v1/${profile}/${coordinates}`,
+      { params: { annotations: 'duration,distance' }, timeout: ROUTING_REQUEST_TIMEOUT }
+    );
+
+    const durations = readMatrixRows(response.data.durations);
+    const distances = readMatrixRows(response.data.distances);
+    if (response.data.code !== 'Ok' || !durations || !distances) {
+      throw new Error(`OSRM table returned ${response.data.code || 'no matrix'}${response.data.message ? `: ${response.data.message}` : ''}`);
+    }
+
+    return { durations, distances, source: this.id };
+  }
+
+  private getBaseUrl(mode: TransportationMode): string {
+    const baseUrl = this.profileUrls[mode] || this.baseUrl;
+    if (!baseUrl) {
+      throw new Error(`No OSRM server configured for ${mode}`);
+    }
+    return baseUrl;
+  }
+}
@@ -0,0 +1,176 @@
+import { RoutingProviderRegistry } from './providerRegistry.js';
+import { RoutingProvider, RoutingRequest } from './routingProvider.js';
+import { MappingService } from '../mappingService.js';
+import { LookupCache } from '../lookupCache.js';
+import { RequestScheduler } from '../requestScheduler.js';
+import { NavigationRoute } from '../../types/navigation.js';
+
+const ORIGIN = { lat: 52.52, lng: 13.405 };
+const DESTINATION = { lat: 52.516, lng: 13.377 };
+
+function fakeRoute(id: string): NavigationRoute {
+  return {
+    id,
+    startLocation: ORIGIN,
+    endLocation: DESTINATION,
+    waypoints: [],
+    overview_polyline: '',
+    distance: { text: '2.0 km', value: 2000 },
+    duration: { text: '25m', value: 1500 },
+    legs: [],
+    warnings: []
+  };
+}
+
+function fakeProvider(id: string, calculate: (request: RoutingRequest) => Promise<NavigationRoute>): RoutingProvider {
+  return {
+    id,
+    isConfigured: () => true,
+    calculateRoute: jest.fn(calculate)
+  };
+}
+
+const failing = (id: string) => fakeProvider(id, async () => { throw new Error(`${id} is down`); });
+const working = (id: string) => fakeProvider(id, async () => fakeRoute(id));
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('RoutingProviderRegistry circuit breaker', () => {
+  const options = { failureThreshold: 2, cooldownMs: 1000 };
+
+  it('stays closed below the failure threshold and resets on success', () => {
+    const registry = new RoutingProviderRegistry(options);
+    registry.register(working('a'));
+
+    registry.recordFailure('a', new Error('boom'), 0);
+    expect(registry.getHealth(0)[0].state).toBe('closed');
+
+    registry.recordSuccess('a');
+    registry.recordFailure('a', new Error('boom'), 10);
+    expect(registry.getHealth(10)[0]).toMatchObject({ state: 'closed', consecutiveFailures: 1, totalFailures: 2 });
+  });
+
+  it('opens at the threshold and skips the provider until the cooldown ends', () => {
+    const registry = new RoutingProviderRegistry(options);
+    registry.register(working('a'));
+
+    registry.recordFailure('a', new Error('boom'), 0);
+    registry.recordFailure('a', new Error('boom'), 100);
+
+    expect(registry.getHealth(100)[0]).toMatchObject({ state: 'open', lastError: 'boom' });
+    expect(registry.getAvailableProviders(500)).toEqual([]);
+    expect(registry.beginAttempt('a', 500)).toBe(false);
+    expect(registry.getHealth(1100)[0].state).toBe('half-open');
+  });
+
+  it('hands out a single trial while half-open', () => {
+    const registry = new RoutingProviderRegistry(options);
+    registry.register(working('a'));
+    registry.recordFailure('a', new Error('boom'), 0);
+    registry.recordFailure('a', new Error('boom'), 0);
+
+    expect(registry.beginAttempt('a', 1000)).toBe(true);
+    expect(registry.beginAttempt('a', 1001)).toBe(false);
+    expect(registry.getAvailableProviders(1001)).toEqual([]);
+
+    // A trial that never reports back is given up after one cooldown
+    expect(registry.beginAttempt('a', 2000)).toBe(true);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const registry = new RoutingProviderRegistry(options);
+    registry.register(working('a'));
+    registry.recordFailure('a', new Error('boom'), 0);
+    registry.recordFailure('a', new Error('boom'), 0);
+
+    registry.beginAttempt('a', 1000);
+    registry.recordSuccess('a');
+
+    expect(registry.getHealth(1000)[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(registry.beginAttempt('a', 1000)).toBe(true);
+    expect(registry.beginAttempt('a', 1000)).toBe(true);
+  });
+
+  it('re-opens straight away when the trial fails', () => {
+    const registry = new RoutingProviderRegistry({ failureThreshold: 5, cooldownMs: 1000 });
+    registry.register(working('a'));
+    for (let i = 0; i < 5; i++) registry.recordFailure('a', new Error('boom'), 0);
+
+    registry.beginAttempt('a', 1000);
+    registry.recordFailure('a', new Error('still down'), 1000);
+
+    expect(registry.getHealth(1500)[0]).toMatchObject({ state: 'open', lastError: 'still down' });
+    expect(registry.getHealth(2000)[0].state).toBe('half-open');
+  });
+
+  it('leaves out providers that are not configured', () => {
+    const registry = new RoutingProviderRegistry(options);
+    registry.register({ ...working('a'), isConfigured: () => false });
+    registry.register(working('b'));
+
+    expect(registry.getAvailableProviders().map(provider => provider.id)).toEqual(['b']);
+  });
+});
+
+describe('MappingService provider fallback', () => {
+  function createMappingService(registry: RoutingProviderRegistry): MappingService {
+    return new MappingService(registry, {}, new LookupCache(), new RequestScheduler());
+  }
+
+  it('tries providers in registration order and returns the first route', async () => {
+    const registry = new RoutingProviderRegistry({ failureThreshold: 3, cooldownMs: 1000 });
+    const first = failing('first');
+    const second = working('second');
+    const third = working('third');
+    registry.register(first);
+    registry.register(second);
+    registry.register(third);
+
+    const routes = await createMappingService(registry).calculateRoutes({ origin: ORIGIN, destination: DESTINATION, mode: 'walking' });
+
+    expect(routes.map(route => route.id)).toEqual(['second']);
+    expect(first.calculateRoute).toHaveBeenCalledTimes(1);
+    expect(third.calculateRoute).not.toHaveBeenCalled();
+    expect(registry.getHealth().map(health => health.consecutiveFailures)).toEqual([1, 0, 0]);
+  });
+
+  it('honors a registration position ahead of the existing chain', async () => {
+    const registry = new RoutingProviderRegistry();
+    registry.register(working('later'));
+    registry.register(working('preferred'), 0);
+
+    const routes = await createMappingService(registry).calculateRoutes({ origin: ORIGIN, destination: DESTINATION });
+
+    expect(routes[0].id).toBe('preferred');
+  });
+
+  it('skips a provider whose circuit is open', async () => {
+    const registry = new RoutingProviderRegistry({ failureThreshold: 1, cooldownMs: 60000 });
+    const flaky = failing('flaky');
+    registry.register(flaky);
+    registry.register(working('backup'));
+    const mappingService = createMappingService(registry);
+
+    await mappingService.calculateRoutes({ origin: ORIGIN, destination: DESTINATION });
+    const routes = await mappingService.calculateRoutes({ origin: ORIGIN, destination: DESTINATION });
+
+    expect(routes[0].id).toBe('backup');
+    expect(flaky.calculateRoute).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns no routes when every provider fails', async () => {
+    const registry = new RoutingProviderRegistry();
+    registry.register(failing('a'));
+    registry.register(failing('b'));
+
+    await expect(createMappingService(registry).calculateRoutes({ origin: ORIGIN, destination: DESTINATION })).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Routing Provider Registry
+ * Keeps routing providers in fallback order and trips a circuit breaker on providers that keep failing
+ */
+
+import { RoutingProvider } from './routingProvider.js';
+import { MapboxRoutingProvider } from './mapboxProvider.js';
+import { OpenRouteServiceProvider } from './orsProvider.js';
+import { DemoRoutingProvider } from './demoProvider.js';
+import { OSRMRoutingProvider } from './osrmProvider.js';
+import { ValhallaRoutingProvider } from './valhallaProvider.js';
+import { OfflineRoutingProvider } from './offlineProvider.js';
+
+// closed: provider is tried normally
+// open: provider failed repeatedly and is skipped until its cooldown ends
+// half-open: cooldown ended - one request at a time is a trial that closes or re-opens the circuit
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  id: string;
+  configured: boolean;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: Date;
+  openUntil?: Date;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures that open the circuit
+  cooldownMs: number; // how long an open circuit skips the provider
+}
+
+interface ProviderEntry {
+  provider: RoutingProvider;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  openUntil?: number;
+  trialStartedAt?: number; // when the half-open trial request was handed out
+}
+
+// Self-hosted backends come first so locations stay on our servers whenever one is configured.
+// The demo provider invents streets, so it is only used when ROUTING_PROVIDERS names it explicitly.
+const DEFAULT_PROVIDER_ORDER = ['osrm', 'valhalla', 'mapbox', 'ors', 'offline'];
+const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60000 // 1 minute
+};
+
+// Providers that can be named in ROUTING_PROVIDERS
+const providerFactories = new Map<string, () => RoutingProvider>([
+  ['mapbox', () => new MapboxRoutingProvider()],
+  ['ors', () => new OpenRouteServiceProvider()],
+  ['osrm', () => new OSRMRoutingProvider()],
+  ['valhalla', () => new ValhallaRoutingProvider()],
+  ['offline', () => new OfflineRoutingProvider()],
+  ['demo', () => new DemoRoutingProvider()]
+]);
+
+let defaultRegistry: RoutingProviderRegistry | undefined;
+
+export class RoutingProviderRegistry {
+  private entries: ProviderEntry[] = [];
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_OPTIONS, ...options };
+  }
+
+  /**
+   * Add a provider to the fallback chain
+   * @param provider Provider to add - replaces any provider with the same id
+   * @param position Index in the chain (default: last)
+   */
+  register(provider: RoutingProvider, position?: number): void {
+    this.unregister(provider.id);
+
+    const entry: ProviderEntry = {
+      provider,
+      consecutiveFailures: 0,
+      totalSuccesses: 0,
+      totalFailures: 0
+    };
+
+    const index = position === undefined ? this.entries.length : Math.max(0, Math.min(position, this.entries.length));
+    this.entries.splice(index, 0, entry);
+  }
+
+  /**
+   * Remove a provider from the chain
+   * @returns true if a provider was removed
+   */
+  unregister(id: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.provider.id !== id);
+    return this.entries.length !== before;
+  }
+
+  /**
+   * All registered providers in fallback order
+   */
+  getProviders(): RoutingProvider[] {
+    return this.entries.map(entry => entry.provider);
+  }
+
+  /**
+   * Providers worth trying right now: configured, and not behind an open circuit
+   */
+  getAvailableProviders(now: number = Date.now()): RoutingProvider[] {
+    return this.entries
+      .filter(entry => entry.provider.isConfigured() && this.isCallable(entry, now))
+      .map(entry => entry.provider);
+  }
+
+  /**
+   * Claim a call to a provider, just before making it.
+   * A half-open provider gets a single trial call; other requests skip it until the trial reports back.
+   * @returns false when the provider should be skipped
+   */
+  beginAttempt(id: string, now: number = Date.now()): boolean {
+    const entry = this.findEntry(id);
+    if (!entry || !this.isCallable(entry, now)) return false;
+
+    if (this.getState(entry, now) === 'half-open') {
+      entry.trialStartedAt = now;
+    }
+    return true;
+  }
+
+  recordSuccess(id: string): void {
+    const entry = this.findEntry(id);
+    if (!entry) return;
+
+    if (entry.openUntil !== undefined) {
+      console.log(`✅ Routing provider ${id} recovered - circuit closed`);
+    }
+
+    entry.consecutiveFailures = 0;
+    entry.totalSuccesses++;
+    entry.openUntil = undefined;
+    entry.trialStartedAt = undefined;
+  }
+
+  recordFailure(id: string, error: unknown, now: number = Date.now()): void {
+    const entry = this.findEntry(id);
+    if (!entry) return;
+
+    const wasHalfOpen = this.getState(entry, now) === 'half-open';
+
+    entry.consecutiveFailures++;
+    entry.totalFailures++;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.lastFailureAt = now;
+    entry.trialStartedAt = undefined;
+
+    // A failed trial re-opens straight away; otherwise open once the threshold is reached
+    if (wasHalfOpen || entry.consecutiveFailures >= this.options.failureThreshold) {
+      entry.openUntil = now + this.options.cooldownMs;
+      console.warn(`⚠️ Routing provider ${id} circuit opened for ${Math.round(this.options.cooldownMs / 1000)}s after ${entry.consecutiveFailures} failures`);
+    }
+  }
+
+  /**
+   * Health snapshot of every registered provider, in fallback order
+   */
+  getHealth(now: number = Date.now()): ProviderHealth[] {
+    return this.entries.map(entry => ({
+      id: entry.provider.id,
+      configured: entry.provider.isConfigured(),
+      state: this.getState(entry, now),
+      consecutiveFailures: entry.consecutiveFailures,
+      totalSuccesses: entry.totalSuccesses,
+      totalFailures: entry.totalFailures,
+      lastError: entry.lastError,
+      lastFailureAt: entry.lastFailureAt !== undefined ? new Date(entry.lastFailureAt) : undefined,
+      openUntil: entry.openUntil !== undefined ? new Date(entry.openUntil) : undefined
+    }));
+  }
+
+  private getState(entry: ProviderEntry, now: number): CircuitState {
+    if (entry.openUntil === undefined) {
+      return 'closed';
+    }
+    return now < entry.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * Closed, or half-open with no trial out. A trial that never reports back is given up after one cooldown.
+   */
+  private isCallable(entry: ProviderEntry, now: number): boolean {
+    const state = this.getState(entry, now);
+    if (state === 'open') return false;
+    if (state === 'closed') return true;
+    return entry.trialStartedAt === undefined || now - entry.trialStartedAt >= this.options.cooldownMs;
+  }
+
+  private findEntry(id: string): ProviderEntry | undefined {
+    return this.entries.find(entry => entry.provider.id === id);
+  }
+}
+
+/**
+ * Make a provider available to ROUTING_PROVIDERS by id
+ * @param id Identifier used in ROUTING_PROVIDERS
+ * @param factory Creates the provider from environment configuration
+ */
+export function registerRoutingProviderFactory(id: string, factory: () => RoutingProvider): void {
+  providerFactories.set(id, factory);
+}
+
+/**
+ * Build a registry from the environment:
+ * ROUTING_PROVIDERS - comma-separated provider ids in fallback order (default: osrm,valhalla,mapbox,ors,offline)
+ * ROUTING_FAILURE_THRESHOLD - consecutive failures before a provider is skipped (default: 3)
+ * ROUTING_CIRCUIT_COOLDOWN_MS - how long a failing provider is skipped (default: 60000)
+ */
+export function createRoutingRegistryFromEnv(): RoutingProviderRegistry {
+  const registry = new RoutingProviderRegistry({
+    failureThreshold: parseInt(process.env.ROUTING_FAILURE_THRESHOLD || '', 10) || DEFAULT_CIRCUIT_OPTIONS.failureThreshold,
+    cooldownMs: parseInt(process.env.ROUTING_CIRCUIT_COOLDOWN_MS || '', 10) || DEFAULT_CIRCUIT_OPTIONS.cooldownMs
+  });
+
+  const order = process.env.ROUTING_PROVIDERS
+    ? process.env.ROUTING_PROVIDERS.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDER_ORDER;
+
+  for (const id of order) {
+    const factory = providerFactories.get(id);
+    if (factory) {
+      registry.register(factory());
+    } else {
+      console.warn(`⚠️ Unknown routing provider "${id}" in ROUTING_PROVIDERS - skipping`);
+    }
+  }
+
+  console.log(`🗺️ Routing providers: ${registry.getProviders().map(provider => provider.id).join(' → ') || 'none'}`);
+  return registry;
+}
+
+/**
+ * Process-wide registry shared by all sessions, so one user's failures protect everyone
+ */
+export function getDefaultRoutingRegistry(): RoutingProviderRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createRoutingRegistryFromEnv();
+  }
+  return defaultRegistry;
+}
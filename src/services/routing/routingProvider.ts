@@ -0,0 +1,116 @@
+/**
+ * Routing Provider
+ * Contract every routing backend implements so MappingService can try them in order
+ */
+
+import {
+  Coordinates,
+  DirectionsRequest,
+  NavigationRoute,
+  PedestrianPreferences,
+  TransportationMode
+} from '../../types/navigation.js';
+
+/**
+ * Directions request with every location already resolved to coordinates.
+ * MappingService geocodes before calling providers, so providers only talk to their own backend.
+ */
+export interface RoutingRequest extends Omit<DirectionsRequest, 'origin' | 'destination' | 'waypoints'> {
+  origin: Coordinates;
+  destination: Coordinates;
+  waypoints: Coordinates[];
+}
+
+/**
+ * Locations to measure travel between, already resolved to coordinates
+ */
+export interface MatrixRequest {
+  locations: Coordinates[];
+  mode?: TransportationMode;
+  pedestrian?: PedestrianPreferences; // only applied when mode is 'walking'
+}
+
+/**
+ * Travel between every pair of locations - row is the origin, column the destination.
+ * Unreachable pairs are Infinity.
+ */
+export interface TravelMatrix {
+  durations: number[][]; // seconds
+  distances: number[][]; // meters
+  source: string; // provider id, or 'estimate' for the great-circle fallback
+}
+
+export interface RoutingProvider {
+  /** Stable identifier used in ROUTING_PROVIDERS and health reports, e.g. 'mapbox' */
+  readonly id: string;
+
+  /** Whether the provider has what it needs (API key, base URL) to be tried at all */
+  isConfigured(): boolean;
+
+  /** Modes the provider can route; omitted means all. Unsupported modes skip the provider without counting as a failure. */
+  readonly supportedModes?: TransportationMode[];
+
+  /**
+   * Calculate a route and normalize it into a NavigationRoute
+   * @throws when the backend fails or returns no route - the caller moves on to the next provider
+   */
+  calculateRoute(request: RoutingRequest): Promise<NavigationRoute>;
+
+  /**
+   * Calculate the primary route plus any alternatives the backend offers.
+   * Optional - providers without alternatives only implement calculateRoute.
+   * @returns Routes with the provider's preferred route first
+   */
+  calculateRoutes?(request: RoutingRequest): Promise<NavigationRoute[]>;
+
+  /**
+   * Travel times and distances between every pair of locations.
+   * Optional - without it MappingService falls back to a great-circle estimate.
+   */
+  calculateMatrix?(request: MatrixRequest): Promise<TravelMatrix>;
+}
+
+export const ROUTING_REQUEST_TIMEOUT = 10000; // 10 seconds before a provider is treated as failed
+
+let routeCounter = 0;
+
+/**
+ * Read a matrix from a backend response, where null marks an unreachable pair
+ */
+export function readMatrixRows(rows: (number | null)[][] | undefined): number[][] | undefined {
+  return rows?.map(row => row.map(value => value === null || value === undefined ? Infinity : value));
+}
+
+/**
+ * Format a duration the way route summaries display it
+ * @param seconds Duration in seconds
+ * @returns Duration such as "1h 5m" or "12m"
+ */
+export function formatRouteDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  } else {
+    return `${minutes}m`;
+  }
+}
+
+/**
+ * Format a route or leg length for summaries
+ * @param meters Distance in meters
+ * @returns Distance in kilometers such as "1.2 km"
+ */
+export function formatRouteDistance(meters: number): string {
+  return `${(meters / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Create a unique route identifier
+ * @param prefix Identifier prefix (default: 'route')
+ */
+export function createRouteId(prefix: string = 'route'): string {
+  // Alternatives are normalized in the same millisecond, so a counter keeps ids unique
+  return `${prefix}_${Date.now()}_${routeCounter++}`;
+}
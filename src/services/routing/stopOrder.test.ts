@@ -0,0 +1,129 @@
+import { optimizeStopOrder } from './stopOrder.js';
+import { TravelMatrix, readMatrixRows } from './routingProvider.js';
+
+const DEPARTURE = new Date('2024-06-03T09:00:00Z');
+const minutesAfterDeparture = (minutes: number) => new Date(DEPARTURE.getTime() + minutes * 60 * 1000);
+
+// Locations on a straight street, at positions in units of 100 seconds' walk: [origin, ...stops, destination?]
+function lineMatrix(positions: number[]): TravelMatrix {
+  const durations = positions.map(from => positions.map(to => Math.abs(from - to) * 100));
+  return { durations, distances: durations.map(row => row.map(seconds => seconds * 1.4)), source: 'estimate' };
+}
+
+// Travel time of an order checked independently of the optimizer: origin, stops, then the destination if fixed
+function orderDuration(matrix: TravelMatrix, order: number[], fixedDestination: boolean): number {
+  const path = [0, ...order.map(stop => stop + 1), ...(fixedDestination ? [order.length + 1] : [])];
+  return path.slice(1).reduce((total, location, i) => total + matrix.durations[path[i]][location], 0);
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+}
+
+describe('optimizeStopOrder', () => {
+  it('finds the quickest order by exact search for up to seven stops', () => {
+    // Asymmetric, irregular travel times from a fixed pseudo-random sequence
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const size = 9; // origin, seven stops, destination
+    const durations = Array.from({ length: size }, (_, from) =>
+      Array.from({ length: size }, (_, to) => (from === to ? 0 : Math.round(60 + random() * 900))));
+    const matrix: TravelMatrix = { durations, distances: durations, source: 'estimate' };
+
+    const result = optimizeStopOrder(matrix, 7, { fixedDestination: true, departureTime: DEPARTURE });
+
+    const best = Math.min(...permutations([0, 1, 2, 3, 4, 5, 6]).map(order => orderDuration(matrix, order, true)));
+    expect(result.totalDuration).toBe(best);
+    expect(orderDuration(matrix, result.order, true)).toBe(best);
+  });
+
+  it('improves the greedy order with 2-opt beyond seven stops', () => {
+    // Nearest-first walks up the street and doubles back for the stop behind the user; 2-opt undoes that
+    const matrix = lineMatrix([0, 1, 2, 3, 4, 5, 6, 7, -1.5, 10]);
+
+    const result = optimizeStopOrder(matrix, 8, { fixedDestination: true, departureTime: DEPARTURE });
+
+    expect(result.order).toEqual([7, 0, 1, 2, 3, 4, 5, 6]);
+    expect(result.totalDuration).toBe(1300); // 1.5 back, 8.5 up to the last stop, 3 on to the destination
+  });
+
+  it('keeps a fixed destination last and counts the walk to it', () => {
+    const matrix = lineMatrix([0, 3, 1, 2, 5]);
+
+    const result = optimizeStopOrder(matrix, 3, { fixedDestination: true, departureTime: DEPARTURE });
+
+    expect(result.order).toEqual([1, 2, 0]);
+    expect(result.totalDuration).toBe(500);
+  });
+
+  it('ends at whichever stop suits the order without a fixed destination', () => {
+    const matrix = lineMatrix([0, 3, -1, 1]);
+
+    const result = optimizeStopOrder(matrix, 3, { fixedDestination: false, departureTime: DEPARTURE });
+
+    expect(result.order).toEqual([1, 2, 0]);
+    expect(result.totalDuration).toBe(500);
+  });
+
+  it('waits for a stop that has not opened, and visits others first when that saves time', () => {
+    const matrix = lineMatrix([0, 1, 2]);
+    const timeWindows = [{ earliest: minutesAfterDeparture(10) }, undefined];
+
+    const result = optimizeStopOrder(matrix, 2, { fixedDestination: false, departureTime: DEPARTURE, timeWindows });
+
+    // Going to the far stop first still arrives before the near one opens, so only the wait remains
+    expect(result.order).toEqual([1, 0]);
+    expect(result.totalDuration).toBe(600);
+    expect(result.lateStops).toEqual([]);
+  });
+
+  it('adds the time spent at each stop', () => {
+    const matrix = lineMatrix([0, 1, 2]);
+    const timeWindows = [{ dwellSeconds: 300 }, { dwellSeconds: 120 }];
+
+    const result = optimizeStopOrder(matrix, 2, { fixedDestination: false, departureTime: DEPARTURE, timeWindows });
+
+    expect(result.totalDuration).toBe(200 + 300 + 120);
+  });
+
+  it('takes a longer order to reach a stop before it closes', () => {
+    const matrix = lineMatrix([0, -1, 2]);
+    const timeWindows = [undefined, { latest: minutesAfterDeparture(4) }];
+
+    const result = optimizeStopOrder(matrix, 2, { fixedDestination: false, departureTime: DEPARTURE, timeWindows });
+
+    expect(result.order).toEqual([1, 0]);
+    expect(result.totalDuration).toBe(500);
+    expect(result.lateStops).toEqual([]);
+  });
+
+  it('reports stops no order reaches in time', () => {
+    const matrix = lineMatrix([0, 5, 6]);
+    const timeWindows = [{ latest: minutesAfterDeparture(1) }, undefined];
+
+    const result = optimizeStopOrder(matrix, 2, { fixedDestination: false, departureTime: DEPARTURE, timeWindows });
+
+    expect(result.order).toEqual([0, 1]);
+    expect(result.lateStops).toEqual([0]);
+  });
+
+  it('avoids legs a provider reported as unreachable', () => {
+    // The first stop can't be reached straight from the origin (null in the backend response)
+    const durations = readMatrixRows([
+      [0, null, 300],
+      [400, 0, 200],
+      [500, 200, 0]
+    ])!;
+    expect(durations[0][1]).toBe(Infinity);
+
+    const result = optimizeStopOrder({ durations, distances: durations, source: 'osrm' }, 2, {
+      fixedDestination: false,
+      departureTime: DEPARTURE
+    });
+
+    expect(result.order).toEqual([1, 0]);
+    expect(result.totalDuration).toBe(500);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Stop Order
+ * Chooses the quickest order to visit a trip's stops from a travel-time matrix
+ */
+
+import { Coordinates, StopTimeWindow, TransportationMode } from '../../types/navigation.js';
+import { calculateDistance } from '../../utils/distance.js';
+import { TravelMatrix } from './routingProvider.js';
+
+// Typical speeds for the great-circle estimate, in m/s
+const ESTIMATE_SPEEDS: Record<TransportationMode, number> = {
+  walking: 1.4,
+  cycling: 5.6,
+  driving: 13.9,
+  transit: 8.3
+};
+
+const ESTIMATE_DETOUR_FACTOR = 1.3; // streets are rarely straight lines
+const EXACT_SEARCH_MAX_STOPS = 7; // 7! = 5040 orders - beyond this, improve a greedy order instead
+const LATENESS_PENALTY = 1000; // one second late weighs as much as this many seconds of travel
+
+export interface StopOrderOptions {
+  fixedDestination: boolean; // the last matrix location is the destination and is always visited last
+  timeWindows?: (StopTimeWindow | undefined)[]; // per stop, in the order stops were given
+  departureTime?: Date; // when the trip starts (default: now)
+}
+
+export interface StopOrderResult {
+  order: number[]; // indexes into the stops as given, in visiting order
+  totalDuration: number; // seconds including waiting and dwell time, to the destination when fixed
+  lateStops: number[]; // stops reached after their window closes, as indexes into the stops as given
+}
+
+interface OrderEvaluation {
+  duration: number;
+  lateness: number;
+  lateStops: number[];
+}
+
+/**
+ * Estimate a travel matrix from straight-line distances, for when no provider can supply one
+ * @param locations Locations in matrix order
+ * @param mode Transportation mode (default: walking)
+ */
+export function estimateTravelMatrix(locations: Coordinates[], mode: TransportationMode = 'walking'): TravelMatrix {
+  const speed = ESTIMATE_SPEEDS[mode];
+  const distances = locations.map(from => locations.map(to => calculateDistance(from, to) * ESTIMATE_DETOUR_FACTOR));
+
+  return {
+    distances,
+    durations: distances.map(row => row.map(distance => distance / speed)),
+    source: 'estimate'
+  };
+}
+
+/**
+ * Find the visiting order that minimizes total travel time, honoring time windows where possible.
+ * The matrix is laid out as [origin, ...stops] plus the destination last when it is fixed.
+ * @param matrix Travel matrix between all locations
+ * @param stopCount Number of stops between origin and destination
+ * @param options Destination and time window constraints
+ */
+export function optimizeStopOrder(matrix: TravelMatrix, stopCount: number, options: StopOrderOptions): StopOrderResult {
+  const given = Array.from({ length: stopCount }, (_, i) => i);
+  const evaluate = (order: number[]) => evaluateOrder(matrix, order, options);
+
+  let best = given;
+  let bestCost = orderCost(evaluate(given));
+
+  if (stopCount <= EXACT_SEARCH_MAX_STOPS) {
+    forEachPermutation(given, order => {
+      const cost = orderCost(evaluate(order));
+      if (cost < bestCost) {
+        best = [...order];
+        bestCost = cost;
+      }
+    });
+  } else {
+    const greedy = nearestNeighborOrder(matrix, stopCount);
+    const greedyCost = orderCost(evaluate(greedy));
+    if (greedyCost < bestCost) {
+      best = greedy;
+      bestCost = greedyCost;
+    }
+    ({ order: best, cost: bestCost } = improveByTwoOpt(best, bestCost, order => orderCost(evaluate(order))));
+  }
+
+  const evaluation = evaluate(best);
+  return { order: best, totalDuration: evaluation.duration, lateStops: evaluation.lateStops };
+}
+
+/**
+ * Walk an order through the matrix, waiting for windows that have not opened and noting lateness
+ */
+function evaluateOrder(matrix: TravelMatrix, order: number[], options: StopOrderOptions): OrderEvaluation {
+  const departure = (options.departureTime ?? new Date()).getTime();
+  let elapsed = 0;
+  let lateness = 0;
+  const lateStops: number[] = [];
+  let previous = 0; // origin
+
+  for (const stop of order) {
+    const location = stop + 1;
+    elapsed += matrix.durations[previous][location];
+
+    const window = options.timeWindows?.[stop];
+    if (window?.earliest) {
+      elapsed = Math.max(elapsed, (window.earliest.getTime() - departure) / 1000);
+    }
+    if (window?.latest) {
+      const late = elapsed - (window.latest.getTime() - departure) / 1000;
+      if (late > 0) {
+        lateness += late;
+        lateStops.push(stop);
+      }
+    }
+
+    elapsed += window?.dwellSeconds ?? 0;
+    previous = location;
+  }
+
+  if (options.fixedDestination) {
+    elapsed += matrix.durations[previous][order.length + 1];
+  }
+
+  return { duration: elapsed, lateness, lateStops };
+}
+
+function orderCost(evaluation: OrderEvaluation): number {
+  return evaluation.duration + evaluation.lateness * LATENESS_PENALTY;
+}
+
+/**
+ * Greedy order: always go to the closest stop not yet visited
+ */
+function nearestNeighborOrder(matrix: TravelMatrix, stopCount: number): number[] {
+  const remaining = new Set(Array.from({ length: stopCount }, (_, i) => i));
+  const order: number[] = [];
+  let previous = 0;
+
+  while (remaining.size > 0) {
+    let next = -1;
+    for (const stop of remaining) {
+      if (next === -1 || matrix.durations[previous][stop + 1] < matrix.durations[previous][next + 1]) {
+        next = stop;
+      }
+    }
+    order.push(next);
+    remaining.delete(next);
+    previous = next + 1;
+  }
+
+  return order;
+}
+
+/**
+ * Reverse segments of the order while that lowers the cost
+ */
+function improveByTwoOpt(
+  start: number[],
+  startCost: number,
+  cost: (order: number[]) => number
+): { order: number[]; cost: number } {
+  let order = start;
+  let bestCost = startCost;
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const candidateCost = cost(candidate);
+        if (candidateCost < bestCost) {
+          order = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return { order, cost: bestCost };
+}
+
+/**
+ * Visit every permutation of the items (Heap's algorithm). The array passed to visit is reused.
+ */
+function forEachPermutation(items: number[], visit: (permutation: number[]) => void): void {
+  const permutation = [...items];
+  const counters = new Array(permutation.length).fill(0);
+  visit(permutation);
+
+  let i = 0;
+  while (i < permutation.length) {
+    if (counters[i] < i) {
+      const swapWith = i % 2 === 0 ? 0 : counters[i];
+      [permutation[swapWith], permutation[i]] = [permutation[i], permutation[swapWith]];
+      visit(permutation);
+      counters[i]++;
+      i = 0;
+    } else {
+      counters[i] = 0;
+      i++;
+    }
+  }
+}
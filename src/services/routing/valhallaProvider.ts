@@ -0,0 +1,110 @@
+/**
+ * Valhalla Routing Provider
+ * Self-hosted Valhalla server, asked for OSRM-format output so it shares normalization with Mapbox and OSRM
+ */
+
+import axios from 'axios';
+import { NavigationRoute, PedestrianPreferences, TransportationMode } from '../../types/navigation.js';
+import { RoutingProvider, RoutingRequest, ROUTING_REQUEST_TIMEOUT } from './routingProvider.js';
+import { normalizeOSRMRoute } from './osrmFormat.js';
+
+const VALHALLA_COSTING: Partial<Record<TransportationMode, string>> = {
+  walking: 'pedestrian',
+  cycling: 'bicycle',
+  driving: 'auto'
+};
+
+const MAX_ALTERNATES = 2;
+const AVOID_STEPS_PENALTY = 600; // seconds added per flight of steps (Valhalla default: 0)
+const PREFERRED_WALKWAY_FACTOR = 0.6; // below 1 favors sidewalks and footways over the roadway
+
+export interface ValhallaProviderOptions {
+  baseUrl?: string; // e.g. http://localhost:8002
+}
+
+export class ValhallaRoutingProvider implements RoutingProvider {
+  readonly id = 'valhalla';
+  private baseUrl: string | undefined;
+
+  constructor(options: ValhallaProviderOptions = {}) {
+    this.baseUrl = options.baseUrl ?? process.env.VALHALLA_BASE_URL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async calculateRoute(request: RoutingRequest): Promise<NavigationRoute> {
+    const [route] = await this.calculateRoutes({ ...request, alternatives: false });
+    return route;
+  }
+
+  async calculateRoutes(request: RoutingRequest): Promise<NavigationRoute[]> {
+    const costing = VALHALLA_COSTING[request.mode || 'driving'] || 'auto';
+
+    // 'break' locations start a new leg, matching how the other providers treat waypoints
+    const locations = [request.origin, ...request.waypoints, request.destination]
+      .map(coord => ({ lat: coord.lat, lon: coord.lng, type: 'break' }));
+
+    const body: any = {
+      locations,
+      costing,
+      format: 'osrm',
+      banner_instructions: true,
+      voice_instructions: true,
+      directions_options: {
+        units: request.units === 'imperial' ? 'miles' : 'kilometers',
+        language: request.language || 'en-US'
+      }
+    };
+
+    if (costing === 'pedestrian' && request.pedestrian) {
+      const costingOptions = getPedestrianCostingOptions(request.pedestrian);
+      if (costingOptions) {
+        body.costing_options = { pedestrian: costingOptions };
+      }
+    }
+
+    // Valhalla only computes alternates between two locations
+    if (request.alternatives && request.waypoints.length === 0) {
+      body.alternates = MAX_ALTERNATES;
+    }
+
+    console.log('🗺️ Making Valhalla route request:', { baseUrl: this.baseUrl, costing, locations: locations.length });
+
+    const response = await axios.post(`${this.baseUrl}/route`, body, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: ROUTING_REQUEST_TIMEOUT
+    });
+
+    if (!response.data.routes?.length) {
+      throw new Error(`Valhalla returned no routes${response.data.message ? `: ${response.data.message}` : ''}`);
+    }
+
+    // format=osrm geometry is polyline6, which normalizeOSRMRoute decodes by default
+    return response.data.routes.map((route: any) => normalizeOSRMRoute(route, request.origin, request.destination));
+  }
+}
+
+/**
+ * Map pedestrian preferences onto Valhalla pedestrian costing options.
+ * Valhalla costs every crossing alike, so the crossing preferences have no equivalent here.
+ */
+function getPedestrianCostingOptions(preferences: PedestrianPreferences): Record<string, number> | undefined {
+  const options: Record<string, number> = {};
+
+  if (preferences.avoidSteps) {
+    options.step_penalty = AVOID_STEPS_PENALTY;
+  }
+  if (preferences.avoidUnpaved) {
+    // Tracks and hiking trails are where unpaved surfaces are
+    options.use_tracks = 0;
+    options.max_hiking_difficulty = 1;
+  }
+  if (preferences.preferSidewalks) {
+    options.sidewalk_factor = PREFERRED_WALKWAY_FACTOR;
+    options.walkway_factor = PREFERRED_WALKWAY_FACTOR;
+  }
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
@@ -0,0 +1,436 @@
+/**
+ * Walk Graph
+ * Walkable street network built from OSM ways, with A* shortest-path search
+ */
+
+import { Coordinates, PedestrianPreferences } from '../../types/navigation.js';
+import { calculateDistance, closestPointOnLine } from '../../utils/distance.js';
+import { OsmWay } from './osmExtract.js';
+
+// A walked piece of a way, in travel order
+export interface PathSegment {
+  from: Coordinates;
+  to: Coordinates;
+  way: OsmWay;
+  length: number; // meters
+}
+
+export interface WalkPath {
+  segments: PathSegment[];
+  length: number; // meters
+}
+
+interface WalkEdge {
+  to: number;
+  wayIndex: number;
+  length: number;
+}
+
+interface GraphSegment {
+  from: number;
+  to: number;
+  wayIndex: number;
+}
+
+// Where a location attaches to the network
+interface Snap {
+  segment: GraphSegment;
+  point: Coordinates;
+  distance: number; // meters from the location to the network
+  fromStart: number; // meters from the segment's first node to the snapped point
+  toEnd: number; // meters from the snapped point to the segment's last node
+}
+
+// Highway types a pedestrian can use without an explicit foot=yes
+const WALKABLE_HIGHWAYS = new Set([
+  'footway', 'pedestrian', 'path', 'steps', 'living_street', 'residential', 'service',
+  'unclassified', 'tertiary', 'tertiary_link', 'secondary', 'secondary_link',
+  'primary', 'primary_link', 'track', 'cycleway', 'crossing', 'corridor', 'platform'
+]);
+
+// Multipliers on length when choosing a path; all >= 1 so the straight-line heuristic stays admissible
+const HIGHWAY_COST_FACTORS: Record<string, number> = {
+  primary: 1.3,
+  primary_link: 1.3,
+  secondary: 1.2,
+  secondary_link: 1.2,
+  tertiary: 1.1,
+  steps: 1.5,
+  track: 1.2
+};
+
+// Extra multipliers applied on top of HIGHWAY_COST_FACTORS when the matching preference is set
+const AVOIDED_STEPS_FACTOR = 10;
+const UNPAVED_FACTOR = 4;
+const ROAD_WITHOUT_SIDEWALK_FACTOR = 2;
+const CROSSING_FACTOR = 4;
+const UNSIGNALIZED_CROSSING_FACTOR = 6;
+
+// Roads a pedestrian walks along rather than on a dedicated footway
+const ROAD_HIGHWAYS = new Set([
+  'residential', 'service', 'unclassified', 'tertiary', 'tertiary_link',
+  'secondary', 'secondary_link', 'primary', 'primary_link'
+]);
+
+const PAVED_SURFACES = new Set([
+  'paved', 'asphalt', 'concrete', 'concrete:plates', 'concrete:lanes', 'paving_stones', 'sett', 'metal', 'wood'
+]);
+
+const GRID_CELL_DEGREES = 0.002; // ~200 m cells for snapping lookups
+export const MAX_SNAP_DISTANCE = 100; // meters - further from the network than this is "not covered"
+
+export class WalkGraph {
+  private nodes: Coordinates[] = [];
+  private nodeIds = new Map<string, number>();
+  private adjacency: WalkEdge[][] = [];
+  private ways: OsmWay[] = [];
+  private segments: GraphSegment[] = [];
+  private grid = new Map<string, number[]>();
+
+  /**
+   * Build the graph from extract ways. Ways are joined wherever they share a coordinate.
+   */
+  constructor(ways: OsmWay[]) {
+    for (const way of ways) {
+      if (isWalkable(way.tags)) {
+        this.addWay(way);
+      }
+    }
+  }
+
+  getNodeCount(): number {
+    return this.nodes.length;
+  }
+
+  getWayCount(): number {
+    return this.ways.length;
+  }
+
+  /**
+   * Find the cheapest walking path between two locations
+   * @param origin Start location
+   * @param destination End location
+   * @param preferences Pedestrian preferences that make some ways costlier to use
+   * @param maxSnapDistance How far a location may be from the network (default: MAX_SNAP_DISTANCE)
+   * @returns Path, or null if either end is off the network or no connection exists
+   */
+  findRoute(
+    origin: Coordinates,
+    destination: Coordinates,
+    preferences: PedestrianPreferences = {},
+    maxSnapDistance: number = MAX_SNAP_DISTANCE
+  ): WalkPath | null {
+    const start = this.snap(origin, maxSnapDistance);
+    const goal = this.snap(destination, maxSnapDistance);
+    if (!start || !goal) {
+      return null;
+    }
+
+    // Virtual nodes for the snapped points sit just past the real ones
+    const startNode = this.nodes.length;
+    const goalNode = this.nodes.length + 1;
+    const nodeCount = this.nodes.length + 2;
+
+    // Snapped points may only be left or reached the way their segment can be walked
+    const startForwardOnly = this.isForwardOnly(start.segment);
+    const goalForwardOnly = this.isForwardOnly(goal.segment);
+
+    const neighbors = (node: number): WalkEdge[] => {
+      if (node === startNode) {
+        const edges = [this.virtualEdge(start.segment.to, start.segment.wayIndex, start.toEnd)];
+        if (!startForwardOnly) {
+          edges.push(this.virtualEdge(start.segment.from, start.segment.wayIndex, start.fromStart));
+        }
+        if (start.segment === goal.segment && (!startForwardOnly || goal.fromStart >= start.fromStart)) {
+          edges.push(this.virtualEdge(goalNode, goal.segment.wayIndex, Math.abs(goal.fromStart - start.fromStart)));
+        }
+        return edges;
+      }
+
+      const edges = node < this.adjacency.length ? [...this.adjacency[node]] : [];
+      if (node === goal.segment.from) {
+        edges.push(this.virtualEdge(goalNode, goal.segment.wayIndex, goal.fromStart));
+      }
+      if (node === goal.segment.to && !goalForwardOnly) {
+        edges.push(this.virtualEdge(goalNode, goal.segment.wayIndex, goal.toEnd));
+      }
+      return edges;
+    };
+
+    const position = (node: number): Coordinates =>
+      node === startNode ? start.point : node === goalNode ? goal.point : this.nodes[node];
+
+    const wayFactors = new Map<number, number>();
+    const edgeCost = (edge: WalkEdge): number => {
+      let factor = wayFactors.get(edge.wayIndex);
+      if (factor === undefined) {
+        factor = getCostFactor(this.ways[edge.wayIndex].tags, preferences);
+        wayFactors.set(edge.wayIndex, factor);
+      }
+      return edge.length * factor;
+    };
+
+    const costs = new Float64Array(nodeCount).fill(Infinity);
+    const previous = new Int32Array(nodeCount).fill(-1);
+    const previousWay = new Int32Array(nodeCount).fill(-1);
+    const closed = new Uint8Array(nodeCount);
+    const open = new MinHeap();
+
+    costs[startNode] = 0;
+    open.push(startNode, calculateDistance(start.point, goal.point));
+
+    while (open.size() > 0) {
+      const node = open.pop();
+      if (closed[node]) continue;
+      if (node === goalNode) break;
+      closed[node] = 1;
+
+      for (const edge of neighbors(node)) {
+        const cost = costs[node] + edgeCost(edge);
+        if (cost < costs[edge.to]) {
+          costs[edge.to] = cost;
+          previous[edge.to] = node;
+          previousWay[edge.to] = edge.wayIndex;
+          open.push(edge.to, cost + calculateDistance(position(edge.to), goal.point));
+        }
+      }
+    }
+
+    if (costs[goalNode] === Infinity) {
+      return null;
+    }
+
+    const segments: PathSegment[] = [];
+    for (let node = goalNode; previous[node] !== -1; node = previous[node]) {
+      const from = position(previous[node]);
+      const to = position(node);
+      const length = calculateDistance(from, to);
+      if (length > 0) {
+        segments.unshift({ from, to, way: this.ways[previousWay[node]], length });
+      }
+    }
+
+    return {
+      segments,
+      length: segments.reduce((total, segment) => total + segment.length, 0)
+    };
+  }
+
+  private addWay(way: OsmWay): void {
+    const wayIndex = this.ways.length;
+    this.ways.push(way);
+
+    const forwardOnly = isForwardOnlyWay(way);
+
+    for (let i = 0; i < way.coordinates.length - 1; i++) {
+      const from = this.getNode(way.coordinates[i]);
+      const to = this.getNode(way.coordinates[i + 1]);
+      if (from === to) continue;
+
+      const length = calculateDistance(this.nodes[from], this.nodes[to]);
+      this.adjacency[from].push({ to, wayIndex, length });
+      if (!forwardOnly) {
+        this.adjacency[to].push({ to: from, wayIndex, length });
+      }
+
+      this.indexSegment({ from, to, wayIndex });
+    }
+  }
+
+  private getNode(coord: Coordinates): number {
+    const key = `${coord.lat.toFixed(7)},${coord.lng.toFixed(7)}`;
+    let id = this.nodeIds.get(key);
+    if (id === undefined) {
+      id = this.nodes.length;
+      this.nodes.push({ lat: coord.lat, lng: coord.lng });
+      this.adjacency.push([]);
+      this.nodeIds.set(key, id);
+    }
+    return id;
+  }
+
+  private isForwardOnly(segment: GraphSegment): boolean {
+    return isForwardOnlyWay(this.ways[segment.wayIndex]);
+  }
+
+  private virtualEdge(to: number, wayIndex: number, length: number): WalkEdge {
+    return { to, wayIndex, length };
+  }
+
+  private indexSegment(segment: GraphSegment): void {
+    const segmentIndex = this.segments.length;
+    this.segments.push(segment);
+
+    // Register the segment in every cell its bounding box touches
+    const a = this.nodes[segment.from];
+    const b = this.nodes[segment.to];
+    const [minRow, maxRow] = [cellIndex(Math.min(a.lat, b.lat)), cellIndex(Math.max(a.lat, b.lat))];
+    const [minCol, maxCol] = [cellIndex(Math.min(a.lng, b.lng)), cellIndex(Math.max(a.lng, b.lng))];
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const key = `${row}:${col}`;
+        const cell = this.grid.get(key);
+        if (cell) cell.push(segmentIndex);
+        else this.grid.set(key, [segmentIndex]);
+      }
+    }
+  }
+
+  private snap(location: Coordinates, maxDistance: number): Snap | null {
+    const rowRadius = Math.ceil(maxDistance / 111320 / GRID_CELL_DEGREES);
+    const colRadius = Math.ceil(rowRadius / Math.max(0.1, Math.cos(location.lat * Math.PI / 180)));
+    const row = cellIndex(location.lat);
+    const col = cellIndex(location.lng);
+    const seen = new Set<number>();
+    let best: Snap | null = null;
+
+    for (let r = row - rowRadius; r <= row + rowRadius; r++) {
+      for (let c = col - colRadius; c <= col + colRadius; c++) {
+        for (const segmentIndex of this.grid.get(`${r}:${c}`) || []) {
+          if (seen.has(segmentIndex)) continue;
+          seen.add(segmentIndex);
+
+          const segment = this.segments[segmentIndex];
+          const a = this.nodes[segment.from];
+          const b = this.nodes[segment.to];
+          const point = closestPointOnLine(location, a, b);
+          const distance = calculateDistance(location, point);
+
+          if (distance <= maxDistance && (!best || distance < best.distance)) {
+            best = {
+              segment,
+              point,
+              distance,
+              fromStart: calculateDistance(a, point),
+              toEnd: calculateDistance(point, b)
+            };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+}
+
+function isForwardOnlyWay(way: OsmWay): boolean {
+  return way.tags['oneway:foot'] === 'yes';
+}
+
+function isWalkable(tags: Record<string, string>): boolean {
+  if (tags.foot === 'no' || tags.foot === 'use_sidepath' || tags.area === 'yes') {
+    return false;
+  }
+  if (tags.foot === 'yes' || tags.foot === 'designated' || tags.foot === 'permissive') {
+    return true;
+  }
+  if (tags.access === 'no' || tags.access === 'private') {
+    return false;
+  }
+  return WALKABLE_HIGHWAYS.has(tags.highway);
+}
+
+/**
+ * Multiplier on a way's length when choosing a path. Always >= 1 so the A* heuristic stays admissible.
+ */
+function getCostFactor(tags: Record<string, string>, preferences: PedestrianPreferences): number {
+  let factor = HIGHWAY_COST_FACTORS[tags.highway] || 1;
+
+  if (preferences.avoidSteps && tags.highway === 'steps') {
+    factor *= AVOIDED_STEPS_FACTOR;
+  }
+  if (preferences.avoidUnpaved && isUnpaved(tags)) {
+    factor *= UNPAVED_FACTOR;
+  }
+  if (preferences.preferSidewalks && ROAD_HIGHWAYS.has(tags.highway) && !hasSidewalk(tags)) {
+    factor *= ROAD_WITHOUT_SIDEWALK_FACTOR;
+  }
+
+  // Crossings are only known where the extract maps them as footway=crossing ways
+  if (tags.footway === 'crossing' || tags.highway === 'crossing') {
+    if (preferences.minimizeCrossings) {
+      factor *= CROSSING_FACTOR;
+    }
+    if (preferences.preferSignalizedCrossings && tags.crossing !== 'traffic_signals') {
+      factor *= UNSIGNALIZED_CROSSING_FACTOR;
+    }
+  }
+
+  return factor;
+}
+
+function isUnpaved(tags: Record<string, string>): boolean {
+  if (tags.surface) {
+    return !PAVED_SURFACES.has(tags.surface);
+  }
+  // Untagged tracks and paths are usually dirt or gravel
+  return tags.highway === 'track' || tags.highway === 'path';
+}
+
+function hasSidewalk(tags: Record<string, string>): boolean {
+  const sidewalk = tags.sidewalk || tags['sidewalk:both'] || tags['sidewalk:left'] || tags['sidewalk:right'];
+  return !!sidewalk && sidewalk !== 'no' && sidewalk !== 'none' && sidewalk !== 'separate';
+}
+
+function cellIndex(degrees: number): number {
+  return Math.floor(degrees / GRID_CELL_DEGREES);
+}
+
+/**
+ * Binary min-heap of graph nodes keyed by priority
+ */
+class MinHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number): void {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+    let i = this.nodes.length - 1;
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop() as number;
+    const lastPriority = this.priorities.pop() as number;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      let smallest = -1;
+
+      while (smallest !== i) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest !== i) {
+          this.swap(i, smallest);
+          i = smallest;
+          smallest = -1;
+        }
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
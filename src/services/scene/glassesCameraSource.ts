@@ -0,0 +1,46 @@
+/**
+ * Glasses Camera Scene Source
+ * Takes a photo with the smart glasses' camera, so descriptions include what is really in front of the user right now
+ */
+
+import { AppSession } from '@mentra/sdk';
+import { SceneFrame, SceneSource } from './sceneSource.js';
+
+export class GlassesCameraSource implements SceneSource {
+  readonly id = 'camera';
+  readonly live = true;
+  private session: AppSession;
+
+  constructor(session: AppSession) {
+    this.session = session;
+  }
+
+  isAvailable(): boolean {
+    // Glasses without a camera (display-only models) have no camera module
+    return !!this.session.camera;
+  }
+
+  async captureFrame(): Promise<SceneFrame | null> {
+    try {
+      console.log('📸 Requesting photo from glasses camera...');
+      const photo = await this.session.camera.requestPhoto({ saveToGallery: false });
+
+      if (!photo?.buffer || photo.buffer.length === 0) {
+        console.warn('⚠️ Glasses camera returned an empty photo');
+        return null;
+      }
+
+      console.log(`✅ Glasses photo received: ${photo.buffer.length} bytes`);
+      return {
+        image: photo.buffer,
+        mimeType: photo.mimeType || 'image/jpeg',
+        source: this.id,
+        subject: 'a photo just taken by the camera on the user\'s smart glasses, facing where the user is looking',
+        live: true
+      };
+    } catch (error) {
+      console.error('Error taking photo with glasses camera:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Image Folder Scene Source
+ * Steps through the images in a local folder, one per capture, so the scene pipeline can be tested offline
+ * without glasses or a Street View key
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { SceneFrame, SceneSource } from './sceneSource.js';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+export class ImageFolderSource implements SceneSource {
+  readonly id = 'folder';
+  // Treated like a camera, so a test at a desk keeps stepping through the images
+  readonly live = true;
+  private dir: string;
+  private nextIndex: number = 0;
+
+  /**
+   * @param dir Folder of .jpg, .png or .webp images, used in file name order
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  isAvailable(): boolean {
+    return !!this.dir && fs.existsSync(this.dir);
+  }
+
+  async captureFrame(): Promise<SceneFrame | null> {
+    try {
+      // Read the listing every time, so images can be added while the app is running
+      const files = fs.readdirSync(this.dir)
+        .filter(file => MIME_TYPES[path.extname(file).toLowerCase()])
+        .sort();
+
+      if (files.length === 0) {
+        console.warn(`⚠️ No images in scene folder ${this.dir}`);
+        return null;
+      }
+
+      const file = files[this.nextIndex % files.length];
+      this.nextIndex = (this.nextIndex + 1) % files.length;
+
+      console.log(`🗂️ Using scene image ${file}`);
+      return {
+        image: fs.readFileSync(path.join(this.dir, file)),
+        mimeType: MIME_TYPES[path.extname(file).toLowerCase()],
+        source: this.id,
+        subject: 'a photo of the street in front of the user',
+        live: true
+      };
+    } catch (error) {
+      console.error(`Error reading scene folder ${this.dir}:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Scene Source
+ * Contract every provider of "what the user is looking at" implements, so scene descriptions
+ * can come from the glasses' camera, Street View or a folder of test images
+ */
+
+import { Coordinates } from '../../types/navigation.js';
+
+export interface SceneRequest {
+  location: Coordinates;
+  heading: number; // degrees, where the user is walking - rounded to a heading bucket
+  sideViews: boolean; // also look left and right where the source can
+}
+
+// One captured frame, with what the analysis needs to know about where it came from
+export interface SceneFrame {
+  image: Buffer;
+  mimeType: string; // e.g. "image/jpeg"
+  source: string; // id of the source that produced it, e.g. 'camera'
+  subject: string; // what the image shows, for the analysis prompt, e.g. "a photo from the user's glasses camera"
+  live: boolean; // shows the street as it is right now, so it may contain people, vehicles and obstacles
+  sideViews?: { left?: Buffer; right?: Buffer };
+  sceneKey?: string; // stable identity of the imagery, so the same views are analyzed once - live frames have none
+}
+
+export interface SceneSource {
+  /** Stable identifier used in SCENE_SOURCES and logs, e.g. 'streetview' */
+  readonly id: string;
+
+  /** Whether frames show the scene as it is now. Sources that aren't live are not asked again while the user stands still. */
+  readonly live: boolean;
+
+  /** Whether the source has what it needs (camera, API key, image folder) to be tried at all */
+  isAvailable(): boolean;
+
+  /**
+   * Capture the scene at a location
+   * @returns The frame, or null when the source has nothing for this location - the caller moves on to the next source
+   */
+  captureFrame(request: SceneRequest): Promise<SceneFrame | null>;
+}
@@ -0,0 +1,90 @@
+/**
+ * Scene Source Chain
+ * Tries scene sources in order until one produces a frame, e.g. the glasses' camera and then Street View
+ */
+
+import { AppSession } from '@mentra/sdk';
+import { StreetViewService } from '../streetViewService.js';
+import { GlassesCameraSource } from './glassesCameraSource.js';
+import { ImageFolderSource } from './imageFolderSource.js';
+import { SceneFrame, SceneRequest, SceneSource } from './sceneSource.js';
+import { StreetViewSceneSource } from './streetViewSource.js';
+
+const DEFAULT_SOURCE_ORDER = ['streetview'];
+
+export class SceneSourceChain {
+  private sources: SceneSource[];
+
+  constructor(sources: SceneSource[]) {
+    this.sources = sources;
+  }
+
+  getSources(): SceneSource[] {
+    return [...this.sources];
+  }
+
+  /**
+   * The source that will be tried first right now
+   */
+  getPrimarySource(): SceneSource | undefined {
+    return this.sources.find(source => source.isAvailable());
+  }
+
+  /**
+   * Capture the scene from the first source that has a frame
+   * @returns The frame, tagged with the source that produced it, or null when no source had one
+   */
+  async capture(request: SceneRequest): Promise<SceneFrame | null> {
+    for (const source of this.sources) {
+      if (!source.isAvailable()) continue;
+
+      try {
+        const frame = await source.captureFrame(request);
+        if (frame) {
+          return frame;
+        }
+      } catch (error) {
+        console.error(`Scene source ${source.id} failed:`, error);
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Build a session's scene sources from the environment:
+ * SCENE_SOURCES - comma-separated source ids in fallback order: camera, streetview, folder (default: streetview)
+ * SCENE_IMAGE_DIR - folder of test images for the 'folder' source
+ * @param session Session whose glasses camera the 'camera' source uses
+ * @param streetViewService Session's Street View service for the 'streetview' source
+ */
+export function createSceneSourceChainFromEnv(session: AppSession, streetViewService: StreetViewService): SceneSourceChain {
+  const order = process.env.SCENE_SOURCES
+    ? process.env.SCENE_SOURCES.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_SOURCE_ORDER;
+
+  const sources: SceneSource[] = [];
+  for (const id of order) {
+    switch (id) {
+    case 'camera':
+      sources.push(new GlassesCameraSource(session));
+      break;
+    case 'streetview':
+      sources.push(new StreetViewSceneSource(streetViewService));
+      break;
+    case 'folder':
+      if (!process.env.SCENE_IMAGE_DIR) {
+        console.warn('⚠️ SCENE_SOURCES includes "folder" but SCENE_IMAGE_DIR is not set - skipping');
+        break;
+      }
+      sources.push(new ImageFolderSource(process.env.SCENE_IMAGE_DIR));
+      break;
+    default:
+      console.warn(`⚠️ Unknown scene source "${id}" in SCENE_SOURCES - skipping`);
+    }
+  }
+
+  console.log(`📷 Scene sources: ${sources.map(source => source.id).join(' → ') || 'none'}`);
+  return new SceneSourceChain(sources);
+}
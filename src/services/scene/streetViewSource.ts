@@ -0,0 +1,51 @@
+/**
+ * Street View Scene Source
+ * Google Street View imagery facing the way the user is walking. Works without a camera,
+ * but the imagery can be months or years old.
+ */
+
+import { StreetViewService } from '../streetViewService.js';
+import { SceneFrame, SceneRequest, SceneSource } from './sceneSource.js';
+
+export class StreetViewSceneSource implements SceneSource {
+  readonly id = 'streetview';
+  readonly live = false;
+  private streetViewService: StreetViewService;
+
+  constructor(streetViewService: StreetViewService) {
+    this.streetViewService = streetViewService;
+  }
+
+  isAvailable(): boolean {
+    return !!process.env.GOOGLE_API_KEY;
+  }
+
+  async captureFrame(request: SceneRequest): Promise<SceneFrame | null> {
+    const { location, heading } = request;
+
+    // Check coverage first (free), so places without imagery cost nothing and never get described as a grey tile
+    const panorama = await this.streetViewService.getPanorama(location);
+    if (!panorama) {
+      console.log('📷 No Street View coverage here');
+      return null;
+    }
+
+    const views = request.sideViews
+      ? await this.streetViewService.fetchStreetViewSides(location, heading)
+      : null;
+    const image = views?.ahead || await this.streetViewService.fetchStreetViewImage(location, heading);
+    if (!image) {
+      return null;
+    }
+
+    return {
+      image,
+      mimeType: 'image/jpeg',
+      source: this.id,
+      subject: `a Street View image${panorama.date ? ` from ${panorama.date}` : ''}, taken facing the way the user is walking`,
+      live: false,
+      sideViews: views ? { left: views.left, right: views.right } : undefined,
+      sceneKey: `${panorama.panoId}:${heading}:${views ? 'sides' : 'ahead'}`
+    };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Speech Queue
+ * Speaks messages through MentraOS text-to-speech one at a time, most important first
+ */
+
+import { AppSession, SpeakOptions } from '@mentra/sdk';
+
+// urgent: turn warnings, off-route and arrival - preempts anything less urgent
+// normal: status and progress messages
+// background: AI scene descriptions - only spoken when nothing else is waiting
+export type SpeechPriority = 'urgent' | 'normal' | 'background';
+
+export interface SpeechOptions {
+  priority?: SpeechPriority;
+  key?: string; // messages sharing a key replace each other (default: the text itself)
+  ttlMs?: number; // drop the message if it hasn't started playing within this time
+}
+
+interface QueuedSpeech {
+  text: string;
+  priority: SpeechPriority;
+  key: string;
+  expiresAt: number;
+  sequence: number;
+}
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  urgent: 2,
+  normal: 1,
+  background: 0
+};
+
+const DEFAULT_TTL_MS: Record<SpeechPriority, number> = {
+  urgent: 10000, // a turn warning is useless once the turn is behind you
+  normal: 30000,
+  background: 20000
+};
+
+const TTS_TRACK_ID = 2; // MentraOS audio track reserved for text-to-speech
+const MAX_QUEUE_LENGTH = 10;
+
+export class SpeechQueue {
+  private session: AppSession;
+  private queue: QueuedSpeech[] = [];
+  private current?: QueuedSpeech;
+  private sequence: number = 0;
+  private voiceId?: string;
+  private disposed: boolean = false;
+
+  constructor(session: AppSession, voiceLanguage: string) {
+    this.session = session;
+    this.setLanguage(voiceLanguage);
+  }
+
+  /**
+   * Pick the TTS voice for a language, e.g. es-ES uses ELEVENLABS_VOICE_ID_ES_ES,
+   * then ELEVENLABS_VOICE_ID_ES, then ELEVENLABS_VOICE_ID, then the server default
+   * @param voiceLanguage BCP 47 language tag from the voice_language setting
+   */
+  setLanguage(voiceLanguage: string): void {
+    const tag = (voiceLanguage || 'en-US').toUpperCase().replace(/-/g, '_');
+    const language = tag.split('_')[0];
+
+    this.voiceId = process.env[`ELEVENLABS_VOICE_ID_${tag}`]
+      || process.env[`ELEVENLABS_VOICE_ID_${language}`]
+      || process.env.ELEVENLABS_VOICE_ID
+      || undefined;
+  }
+
+  /**
+   * Queue a message for speaking
+   * @param text Text to speak
+   * @param options Priority, de-duplication key and time-to-live
+   */
+  speak(text: string, options: SpeechOptions = {}): void {
+    if (this.disposed || !text.trim()) {
+      return;
+    }
+
+    const priority = options.priority || 'normal';
+    const key = options.key || text;
+
+    // Already saying exactly this - nothing to add
+    if (this.current && this.current.key === key && this.current.text === text) {
+      return;
+    }
+
+    // A newer message with the same key supersedes the queued one
+    this.queue = this.queue.filter(item => item.key !== key);
+    this.queue.push({
+      text,
+      priority,
+      key,
+      expiresAt: Date.now() + (options.ttlMs ?? DEFAULT_TTL_MS[priority]),
+      sequence: this.sequence++
+    });
+
+    this.queue.sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.sequence - b.sequence);
+    if (this.queue.length > MAX_QUEUE_LENGTH) {
+      this.queue = this.queue.slice(0, MAX_QUEUE_LENGTH);
+    }
+
+    if (this.current && priority === 'urgent' && PRIORITY_RANK[this.current.priority] < PRIORITY_RANK.urgent) {
+      console.log(`🔇 Interrupting "${this.current.text}" for urgent speech`);
+      this.session.audio.stopAudio(TTS_TRACK_ID);
+      this.current = undefined;
+    }
+
+    this.playNext();
+  }
+
+  /**
+   * Drop queued messages and stop whatever is playing
+   */
+  clear(): void {
+    this.queue = [];
+    if (this.current) {
+      this.current = undefined;
+      this.session.audio.stopAudio(TTS_TRACK_ID);
+    }
+  }
+
+  /**
+   * Stop speaking and ignore further messages - call when the session ends
+   */
+  dispose(): void {
+    this.clear();
+    this.disposed = true;
+  }
+
+  private playNext(): void {
+    if (this.current || this.disposed) {
+      return;
+    }
+
+    const now = Date.now();
+    this.queue = this.queue.filter(item => item.expiresAt > now);
+
+    const next = this.queue.shift();
+    if (!next) {
+      return;
+    }
+
+    this.current = next;
+    this.play(next).finally(() => {
+      // If this item was interrupted, the interrupting one already owns the channel
+      if (this.current === next) {
+        this.current = undefined;
+      }
+      this.playNext();
+    });
+  }
+
+  private async play(item: QueuedSpeech): Promise<void> {
+    const options: SpeakOptions = {
+      voice_id: this.voiceId,
+      trackId: TTS_TRACK_ID,
+      stopOtherAudio: false
+    };
+
+    console.log(`[VOICE:${item.priority}]: ${item.text}`);
+
+    try {
+      const result = await this.session.audio.speak(item.text, options);
+      if (!result.success) {
+        console.error('TTS playback failed:', result.error);
+      }
+    } catch (error) {
+      console.error('Error speaking text:', error);
+    }
+  }
+}
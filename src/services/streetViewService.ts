@@ -2,54 +2,168 @@
  * Street View Service
  * Handles fetching photos from Google Street View Static API
  * Now includes automatic cropping to remove Google watermark
+ * Images are kept in memory per instance, so sessions never see each other's photos
  */
 
 import { Coordinates } from '../types/navigation.js';
-import fs from 'fs';
-import path from 'path';
+import { LookupCache } from './lookupCache.js';
+
+// Views around the user, each already cropped
+export interface StreetViewSides {
+  ahead: Buffer;
+  left?: Buffer;
+  right?: Buffer;
+}
+
+// Street View panorama covering a location, from the (free) metadata endpoint
+export interface StreetViewPanorama {
+  panoId: string;
+  location: Coordinates; // where the panorama was taken, which may be a few meters from the location asked about
+  date?: string; // capture month, e.g. "2023-06"
+}
+
+const HEADING_BUCKET_DEGREES = 30; // headings are rounded to this, so nearby headings share a cached image
+
+// Shared by every session - imagery is the same for everyone, and each image costs an API request
+const imageCache = new LookupCache({ maxEntries: 100 }); // ~60 KB per image
 
 export class StreetViewService {
   private apiKey: string;
-  private imageDir: string;
+  private currentImage?: Buffer;
 
   constructor() {
     this.apiKey = process.env.GOOGLE_API_KEY || '';
-    this.imageDir = path.join(process.cwd(), 'images');
-    
-    // Ensure images directory exists
-    if (!fs.existsSync(this.imageDir)) {
-      fs.mkdirSync(this.imageDir, { recursive: true });
-    }
     
     if (!this.apiKey) {
       console.error('GOOGLE_API_KEY environment variable is required for Street View');
     }
   }
 
+  /**
+   * Find the panorama covering a location, without downloading any imagery
+   * @param location - The coordinates to check
+   * @returns Promise<StreetViewPanorama | null> - The panorama, or null where there is no outdoor coverage
+   */
+  async getPanorama(location: Coordinates): Promise<StreetViewPanorama | null> {
+    if (!this.apiKey) {
+      console.error('Google API key not configured');
+      return null;
+    }
+
+    // ~11 m precision - Street View panoramas are usually about 10 m apart
+    const cacheKey = `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`;
+    const cached = imageCache.get<StreetViewPanorama | null>('metadata', cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const params = new URLSearchParams({
+        location: `${location.lat},${location.lng}`,
+        source: 'outdoor', // indoor panoramas don't help someone walking down the street
+        key: this.apiKey
+      });
+
+      const response = await fetch(`https://maps.googleapis.com/maps/api/streetview/metadata?${params}`);
+      if (!response.ok) {
+        console.error(`Street View metadata error: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      const data = await response.json();
+      const panorama: StreetViewPanorama | null = data.status === 'OK' && data.pano_id
+        ? { panoId: data.pano_id, location: { lat: data.location?.lat, lng: data.location?.lng }, date: data.date }
+        : null;
+
+      // Remember coverage either way, but not errors such as OVER_QUERY_LIMIT
+      if (data.status === 'OK' || data.status === 'ZERO_RESULTS') {
+        imageCache.set('metadata', cacheKey, panorama);
+      }
+      if (!panorama) {
+        console.log(`🌍 No Street View coverage at ${cacheKey} (${data.status})`);
+      }
+      return panorama;
+    } catch (error) {
+      console.error('Error fetching Street View metadata:', error);
+      return null;
+    }
+  }
+
   /**
    * Fetch a Street View image at specific coordinates and crop out Google watermark
    * @param location - The coordinates to get the street view image for
-   * @param heading - The direction the camera is pointing (0-360 degrees)
+   * @param heading - The direction the camera is pointing (0-360 degrees), rounded to HEADING_BUCKET_DEGREES
    * @param pitch - The up/down angle of the camera (-90 to 90 degrees)
    * @param size - Image size in format "widthxheight"
-   * @returns Promise<string> - Path to the saved image file
+   * @returns Promise<Buffer | null> - JPEG image data, or null where there is no coverage
    */
   async fetchStreetViewImage(
     location: Coordinates,
     heading: number = 0,
     pitch: number = 0,
     size: string = '640x640'
-  ): Promise<string | null> {
-    try {
-      if (!this.apiKey) {
-        console.error('Google API key not configured');
-        return null;
-      }
+  ): Promise<Buffer | null> {
+    const panorama = await this.getPanorama(location);
+    if (!panorama) {
+      return null;
+    }
 
+    const image = await this.downloadImage(panorama, heading, pitch, size);
+    if (image) {
+      this.currentImage = image;
+    }
+    return image;
+  }
+
+  /**
+   * Fetch the views ahead, to the left and to the right of a heading
+   * @param location - The coordinates to get the street view images for
+   * @param heading - The direction the user is facing or walking (0-360 degrees)
+   * @returns Promise<StreetViewSides | null> - JPEG image data; null when the view ahead is unavailable
+   */
+  async fetchStreetViewSides(location: Coordinates, heading: number): Promise<StreetViewSides | null> {
+    const panorama = await this.getPanorama(location);
+    if (!panorama) {
+      return null;
+    }
+
+    // With a 90 degree field of view the three images cover the half circle in front of the user
+    const [left, ahead, right] = await Promise.all([
+      this.downloadImage(panorama, heading + 270),
+      this.downloadImage(panorama, heading),
+      this.downloadImage(panorama, heading + 90)
+    ]);
+
+    if (!ahead) {
+      return null;
+    }
+    this.currentImage = ahead;
+    return { ahead, left: left || undefined, right: right || undefined };
+  }
+
+  /**
+   * Download and crop one image of a panorama without making it the current image.
+   * Images are cached by panorama and heading bucket.
+   */
+  private async downloadImage(
+    panorama: StreetViewPanorama,
+    heading: number = 0,
+    pitch: number = 0,
+    size: string = '640x640'
+  ): Promise<Buffer | null> {
+    const bucket = toHeadingBucket(heading);
+    const cacheKey = `${panorama.panoId}:${bucket}:${pitch}:${size}`;
+    const cached = imageCache.get<Buffer>('image', cacheKey);
+    if (cached) {
+      console.log(`🎯 Using cached Street View image for ${cacheKey}`);
+      return cached;
+    }
+
+    try {
       const params = new URLSearchParams({
         size: size,
-        location: `${location.lat},${location.lng}`,
-        heading: heading.toString(),
+        pano: panorama.panoId,
+        heading: bucket.toString(),
         pitch: pitch.toString(),
         key: this.apiKey,
         fov: '90' // Field of view in degrees
@@ -57,7 +171,7 @@ export class StreetViewService {
 
       const url = `https://maps.googleapis.com/maps/api/streetview?${params}`;
       
-      console.log(`🌍 Fetching Street View image for: ${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`);
+      console.log(`🌍 Fetching Street View image for panorama ${panorama.panoId}, heading ${bucket}°`);
       console.log(`📍 URL: ${url}`);
 
       const response = await fetch(url);
@@ -67,31 +181,20 @@ export class StreetViewService {
         return null;
       }
 
-      const buffer = await response.arrayBuffer();
-      const uint8Array = new Uint8Array(buffer);
-      
-      // Save the original image temporarily
-      const tempImagePath = path.join(this.imageDir, 'temp_streetview.jpg');
-      fs.writeFileSync(tempImagePath, uint8Array);
+      const originalImage = Buffer.from(await response.arrayBuffer());
       
       // Crop the image to remove Google watermark
-      const croppedImagePath = await this.cropGoogleWatermark(tempImagePath);
-      
-      // Clean up temporary file
-      if (fs.existsSync(tempImagePath)) {
-        fs.unlinkSync(tempImagePath);
-      }
+      const croppedImage = await this.cropGoogleWatermark(originalImage);
       
-      if (croppedImagePath) {
-        console.log(`✅ Street View image cropped and saved to: ${croppedImagePath}`);
-        return croppedImagePath;
+      const image = croppedImage || originalImage;
+      if (croppedImage) {
+        console.log(`✅ Street View image cropped (${croppedImage.length} bytes)`);
       } else {
         console.log(`⚠️ Image cropping failed, using original image`);
-        // Fallback to original image
-        const imagePath = path.join(this.imageDir, 'current_streetview.jpg');
-        fs.writeFileSync(imagePath, uint8Array);
-        return imagePath;
       }
+
+      imageCache.set('image', cacheKey, image);
+      return image;
       
     } catch (error) {
       console.error('Error fetching Street View image:', error);
@@ -101,15 +204,15 @@ export class StreetViewService {
 
   /**
    * Crop the bottom portion of the image to remove Google watermark
-   * @param imagePath - Path to the original image
-   * @returns Promise<string | null> - Path to the cropped image
+   * @param image - Original JPEG image data
+   * @returns Promise<Buffer | null> - Cropped JPEG image data
    */
-  private async cropGoogleWatermark(imagePath: string): Promise<string | null> {
+  private async cropGoogleWatermark(image: Buffer): Promise<Buffer | null> {
     try {
       const { createCanvas, loadImage } = await import('canvas');
       
       // Load the original image
-      const originalImage = await loadImage(imagePath);
+      const originalImage = await loadImage(image);
       
       // Calculate crop dimensions - remove bottom 15% to get rid of Google logo
       const cropPercentage = 0.15; // Remove 15% from bottom
@@ -129,13 +232,8 @@ export class StreetViewService {
         0, 0, newWidth, newHeight              // Destination rectangle
       );
       
-      // Save the cropped image
-      const croppedImagePath = path.join(this.imageDir, 'current_streetview.jpg');
-      const buffer = canvas.toBuffer('image/jpeg');
-      fs.writeFileSync(croppedImagePath, buffer);
-      
       console.log(`✅ Google watermark cropped successfully`);
-      return croppedImagePath;
+      return canvas.toBuffer('image/jpeg');
       
     } catch (error) {
       console.error('Error cropping Google watermark:', error);
@@ -144,11 +242,11 @@ export class StreetViewService {
   }
 
   /**
-   * Get the current street view image path
-   * @returns string - Path to the current image file
+   * Get the last street view image fetched
+   * @returns Buffer | undefined - JPEG image data, undefined before the first fetch
    */
-  getCurrentImagePath(): string {
-    return path.join(this.imageDir, 'current_streetview.jpg');
+  getCurrentImage(): Buffer | undefined {
+    return this.currentImage;
   }
 
   /**
@@ -156,6 +254,16 @@ export class StreetViewService {
    * @returns boolean - True if image exists
    */
   hasCurrentImage(): boolean {
-    return fs.existsSync(this.getCurrentImagePath());
+    return !!this.currentImage;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Round a heading to the bucket images are fetched and cached at
+ * @param heading - Heading in degrees, any range
+ * @returns number - Heading in degrees (0-360, a multiple of HEADING_BUCKET_DEGREES)
+ */
+export function toHeadingBucket(heading: number): number {
+  const normalized = ((heading % 360) + 360) % 360;
+  return (Math.round(normalized / HEADING_BUCKET_DEGREES) * HEADING_BUCKET_DEGREES) % 360;
+}
@@ -0,0 +1,77 @@
+/**
+ * Gemini Scene Describer
+ * Google Gemini generateContent REST API
+ */
+
+import { SceneDescriber, SceneDescriptionRequest, VisionProviderError } from './visionProvider.js';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_MODEL = 'gemini-2.0-flash-exp';
+
+export interface GeminiDescriberOptions {
+  apiKey?: string;
+  model?: string; // e.g. gemini-2.0-flash-exp
+  baseUrl?: string; // e.g. https://generativelanguage.googleapis.com/v1beta
+}
+
+export class GeminiSceneDescriber implements SceneDescriber {
+  readonly id = 'gemini';
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+
+  constructor(options: GeminiDescriberOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.GOOGLE_GEMINI_API_KEY ?? '';
+    this.model = options.model ?? process.env.GEMINI_MODEL ?? DEFAULT_MODEL;
+    this.baseUrl = options.baseUrl ?? process.env.GEMINI_API_BASE_URL ?? DEFAULT_BASE_URL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async describe(request: SceneDescriptionRequest): Promise<string> {
+    const endpoint = `${this.baseUrl}/models/${this.model}:generateContent`;
+    console.log(`🔗 Gemini endpoint: ${endpoint}`);
+
+    const response = await fetch(`${endpoint}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [
+            {
+              text: request.prompt
+            },
+            ...request.images.flatMap(view => [
+              {
+                text: view.label
+              },
+              {
+                inline_data: {
+                  mime_type: view.mimeType,
+                  data: view.image.toString('base64')
+                }
+              }
+            ])
+          ]
+        }]
+      })
+    });
+
+    if (!response.ok) {
+      throw new VisionProviderError('Gemini', response.status, await response.text());
+    }
+
+    const data = await response.json();
+    console.log('🔍 Gemini response structure:', {
+      candidates: data.candidates?.length || 0,
+      hasContent: !!data.candidates?.[0]?.content,
+      hasParts: !!data.candidates?.[0]?.content?.parts?.length
+    });
+
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Local Vision Providers
+ * Stand-in describer and detector that call a plain HTTP server, e.g. a fake returning canned JSON
+ * for tests and offline demos, or a self-hosted model.
+ *
+ * POST {baseUrl}/describe  { prompt, images: [{ label, mimeType, data }] }  ->  { text }
+ * POST {baseUrl}/detect    { image }                                        ->  { predictions: [{ class, confidence, x, y, width, height }], image?: { width, height } }
+ * Image data is base64; detections use Roboflow's center-based boxes.
+ */
+
+import {
+  ObjectDetectionResult,
+  ObjectDetector,
+  SceneDescriber,
+  SceneDescriptionRequest,
+  VisionProviderError
+} from './visionProvider.js';
+
+const DEFAULT_BASE_URL = 'http://localhost:8090';
+
+/**
+ * POST JSON to the local server and read the JSON reply
+ */
+async function postJson(url: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new VisionProviderError('Local vision', response.status, await response.text());
+  }
+
+  return response.json();
+}
+
+export class LocalSceneDescriber implements SceneDescriber {
+  readonly id = 'local';
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl Server URL (default: LOCAL_VISION_URL, or http://localhost:8090)
+   */
+  constructor(baseUrl: string = process.env.LOCAL_VISION_URL || DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async describe(request: SceneDescriptionRequest): Promise<string> {
+    console.log(`🔗 Local describer endpoint: ${this.baseUrl}/describe`);
+
+    const data = await postJson(`${this.baseUrl}/describe`, {
+      prompt: request.prompt,
+      images: request.images.map(view => ({
+        label: view.label,
+        mimeType: view.mimeType,
+        data: view.image.toString('base64')
+      }))
+    });
+
+    return typeof data?.text === 'string' ? data.text : '';
+  }
+}
+
+export class LocalObjectDetector implements ObjectDetector {
+  readonly id = 'local';
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl Server URL (default: LOCAL_VISION_URL, or http://localhost:8090)
+   */
+  constructor(baseUrl: string = process.env.LOCAL_VISION_URL || DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async detect(image: Buffer): Promise<ObjectDetectionResult> {
+    console.log(`🔗 Local detector endpoint: ${this.baseUrl}/detect`);
+
+    const data = await postJson(`${this.baseUrl}/detect`, {
+      image: image.toString('base64')
+    });
+
+    return {
+      predictions: Array.isArray(data?.predictions) ? data.predictions : [],
+      imageWidth: data?.image?.width,
+      imageHeight: data?.image?.height
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Roboflow Object Detector
+ * Roboflow hosted inference for a trained detection model, by default the store sign model
+ */
+
+import { ObjectDetectionResult, ObjectDetector, VisionProviderError } from './visionProvider.js';
+
+const DEFAULT_MODEL_URL = 'https://serverless.roboflow.com/store-sign-2/1';
+
+export interface RoboflowDetectorOptions {
+  apiKey?: string;
+  modelUrl?: string; // hosted model endpoint, e.g. https://serverless.roboflow.com/store-sign-2/1
+}
+
+export class RoboflowObjectDetector implements ObjectDetector {
+  readonly id = 'roboflow';
+  private apiKey: string;
+  private modelUrl: string;
+
+  constructor(options: RoboflowDetectorOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.ROBOFLOW_API_KEY ?? '';
+    this.modelUrl = options.modelUrl ?? process.env.ROBOFLOW_MODEL_URL ?? DEFAULT_MODEL_URL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async detect(image: Buffer): Promise<ObjectDetectionResult> {
+    console.log(`🔗 Roboflow endpoint: ${this.modelUrl}`);
+
+    const response = await fetch(`${this.modelUrl}?api_key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: image.toString('base64')
+    });
+
+    if (!response.ok) {
+      throw new VisionProviderError('Roboflow', response.status, await response.text());
+    }
+
+    const data = await response.json();
+    console.log('🔍 Roboflow response:', JSON.stringify(data, null, 2));
+
+    return {
+      predictions: data.predictions || [],
+      imageWidth: data.image?.width,
+      imageHeight: data.image?.height
+    };
+  }
+}
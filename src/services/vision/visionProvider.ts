@@ -0,0 +1,75 @@
+/**
+ * Vision Providers
+ * Contracts for the models that describe scenes and detect objects, so Gemini and Roboflow
+ * can be swapped for other backends or a local stand-in server
+ */
+
+// An image to describe, with a caption saying which way it looks, e.g. "To the user's left:"
+export interface LabeledImage {
+  label: string;
+  image: Buffer;
+  mimeType: string;
+}
+
+export interface SceneDescriptionRequest {
+  prompt: string;
+  images: LabeledImage[]; // the view ahead first
+}
+
+// Object found in an image; x and y are the center of the box, in pixels (Roboflow's convention)
+export interface DetectedObject {
+  class: string;
+  confidence: number; // 0-1
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ObjectDetectionResult {
+  predictions: DetectedObject[];
+  imageWidth?: number;
+  imageHeight?: number;
+}
+
+// Backend answered with an error status; status lets callers say what went wrong, e.g. a bad key
+export class VisionProviderError extends Error {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(provider: string, status: number, body: string) {
+    super(`${provider} API error (${status}): ${body}`);
+    this.name = 'VisionProviderError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export interface SceneDescriber {
+  /** Stable identifier used in SCENE_DESCRIBER and logs, e.g. 'gemini' */
+  readonly id: string;
+
+  /** Whether the describer has what it needs (API key, base URL) to be called at all */
+  isConfigured(): boolean;
+
+  /**
+   * Describe the images as the prompt asks
+   * @returns The model's text, or an empty string when it gave none
+   * @throws VisionProviderError when the backend answers with an error status
+   */
+  describe(request: SceneDescriptionRequest): Promise<string>;
+}
+
+export interface ObjectDetector {
+  /** Stable identifier used in OBJECT_DETECTOR and logs, e.g. 'roboflow' */
+  readonly id: string;
+
+  /** Whether the detector has what it needs (API key, base URL) to be called at all */
+  isConfigured(): boolean;
+
+  /**
+   * Find objects in an image
+   * @throws VisionProviderError when the backend answers with an error status
+   */
+  detect(image: Buffer): Promise<ObjectDetectionResult>;
+}
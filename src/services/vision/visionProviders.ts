@@ -0,0 +1,86 @@
+/**
+ * Vision Provider Selection
+ * Picks the scene describer and object detector from configuration
+ */
+
+import { GeminiSceneDescriber } from './geminiDescriber.js';
+import { LocalObjectDetector, LocalSceneDescriber } from './localVisionProvider.js';
+import { RoboflowObjectDetector } from './roboflowDetector.js';
+import { ObjectDetector, SceneDescriber } from './visionProvider.js';
+
+let defaultDescriber: SceneDescriber | undefined;
+let defaultDetector: ObjectDetector | undefined;
+
+/**
+ * Build the scene describer from the environment:
+ * SCENE_DESCRIBER - gemini or local (default: gemini)
+ * GOOGLE_GEMINI_API_KEY, GEMINI_MODEL, GEMINI_API_BASE_URL - Gemini settings
+ * LOCAL_VISION_URL - server for the local describer (default: http://localhost:8090)
+ */
+export function createSceneDescriberFromEnv(): SceneDescriber {
+  const id = (process.env.SCENE_DESCRIBER || 'gemini').trim().toLowerCase();
+  let describer: SceneDescriber;
+
+  if (id === 'local') {
+    describer = new LocalSceneDescriber();
+  } else {
+    if (id !== 'gemini') {
+      console.warn(`⚠️ Unknown scene describer "${id}" in SCENE_DESCRIBER - using gemini`);
+    }
+    describer = new GeminiSceneDescriber();
+    if (!describer.isConfigured()) {
+      console.error('GOOGLE_GEMINI_API_KEY environment variable is required for Gemini AI');
+      console.error('Please set GOOGLE_GEMINI_API_KEY in your environment variables');
+    }
+  }
+
+  console.log(`🤖 Scene describer: ${describer.id}`);
+  return describer;
+}
+
+/**
+ * Build the object detector from the environment:
+ * OBJECT_DETECTOR - roboflow or local (default: roboflow)
+ * ROBOFLOW_API_KEY, ROBOFLOW_MODEL_URL - Roboflow settings
+ * LOCAL_VISION_URL - server for the local detector (default: http://localhost:8090)
+ */
+export function createObjectDetectorFromEnv(): ObjectDetector {
+  const id = (process.env.OBJECT_DETECTOR || 'roboflow').trim().toLowerCase();
+  let detector: ObjectDetector;
+
+  if (id === 'local') {
+    detector = new LocalObjectDetector();
+  } else {
+    if (id !== 'roboflow') {
+      console.warn(`⚠️ Unknown object detector "${id}" in OBJECT_DETECTOR - using roboflow`);
+    }
+    detector = new RoboflowObjectDetector();
+    if (!detector.isConfigured()) {
+      console.error('ROBOFLOW_API_KEY environment variable is required for store sign detection');
+      console.error('Please set ROBOFLOW_API_KEY in your environment variables');
+    }
+  }
+
+  console.log(`🏪 Object detector: ${detector.id}`);
+  return detector;
+}
+
+/**
+ * Process-wide describer shared by all sessions
+ */
+export function getDefaultSceneDescriber(): SceneDescriber {
+  if (!defaultDescriber) {
+    defaultDescriber = createSceneDescriberFromEnv();
+  }
+  return defaultDescriber;
+}
+
+/**
+ * Process-wide detector shared by all sessions
+ */
+export function getDefaultObjectDetector(): ObjectDetector {
+  if (!defaultDetector) {
+    defaultDetector = createObjectDetectorFromEnv();
+  }
+  return defaultDetector;
+}
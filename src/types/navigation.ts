@@ -79,6 +79,7 @@ export interface RouteStep {
   reference?: string;
   destinations?: string;
   exits?: string;
+  crossings?: number; // street crossings within the step, where the provider knows them
 }
 
 export interface NavigationInstruction {
@@ -99,6 +100,7 @@ export interface NavigationState {
   currentRoute?: NavigationRoute;
   currentLocation?: Coordinates;
   currentSpeed?: number; // km/h or mph based on user preference
+  currentHeading?: number; // degrees (0-360), undefined when unknown
   currentInstruction?: NavigationInstruction;
   nextInstruction?: NavigationInstruction;
   distanceToDestination?: number; // in meters
@@ -109,6 +111,7 @@ export interface NavigationState {
   routeProgress?: number; // percentage 0-100
   currentStepIndex?: number; // Current step in the route (1/16, 2/16, etc.)
   totalSteps?: number; // Total number of steps in the route
+  waypoints?: Waypoint[]; // ordered trip stops before the destination, visited ones included
 }
 
 export interface PlaceSearchResult {
@@ -121,9 +124,40 @@ export interface PlaceSearchResult {
   types: string[];
   rating?: number;
   opening_hours?: {
-    open_now: boolean;
+    open_now?: boolean; // undefined when the hours can't be read
+    schedule: string; // OSM opening_hours value, e.g. "Mo-Fr 08:00-18:00"
   };
   distance?: number; // from current location in meters
+  travel_distance?: number; // meters along streets from the current location, in the user's transportation mode
+  travel_duration?: number; // seconds, as travel_distance
+}
+
+export interface PlaceFilters {
+  openNow?: boolean; // drop places known to be closed; places without hours are kept, after the open ones
+  category?: string; // keep places of this OSM type or class, e.g. "cafe" or "shop"
+  mode?: TransportationMode; // how distances are measured (default: walking)
+  pedestrian?: PedestrianPreferences;
+}
+
+export interface StreetIntersection {
+  streets: string[]; // names of the streets meeting here
+  location: Coordinates;
+  distance?: number; // from the location asked about, in meters
+}
+
+export interface NearbyFeature {
+  name: string;
+  type: string; // OSM amenity, shop or tourism value, e.g. "cafe"
+  location: Coordinates;
+  distance?: number; // from the location asked about, in meters
+}
+
+// What is around a location, for telling a user where they are
+export interface Surroundings {
+  address?: string; // short spoken address, e.g. "120 Main Street, Springfield"
+  street?: string; // street the location is on
+  intersections: StreetIntersection[]; // nearest first
+  places: NearbyFeature[]; // named places nearby, nearest first
 }
 
 export interface TrafficReport {
@@ -158,6 +192,24 @@ export interface NavigationSettings {
   speed_limit_warnings: boolean;
   traffic_alerts: boolean;
   hands_free_mode: boolean;
+  accessibility_mode: boolean; // egocentric spoken cues (clock face, walking steps) for blind and low-vision users
+  stride_length: number; // centimeters per walking step
+  scene_side_views: boolean; // also look left and right for scene descriptions, so they can say which side things are on
+  // Walking route preferences
+  prefer_signalized_crossings: boolean;
+  minimize_crossings: boolean;
+  avoid_steps: boolean;
+  avoid_unpaved: boolean;
+  prefer_sidewalks: boolean;
+}
+
+// Safety preferences for walking routes. Each provider honors what its backend can express.
+export interface PedestrianPreferences {
+  preferSignalizedCrossings?: boolean; // cross at traffic lights rather than uncontrolled crossings
+  minimizeCrossings?: boolean; // fewer street crossings, even if the route is longer
+  avoidSteps?: boolean; // avoid steps and stairs
+  avoidUnpaved?: boolean; // avoid gravel, dirt, grass and other unpaved surfaces
+  preferSidewalks?: boolean; // prefer sidewalks and footways over walking along the roadway
 }
 
 export type TransportationMode = 'driving' | 'walking' | 'cycling' | 'transit';
@@ -173,6 +225,11 @@ export interface GeocodeResult {
   };
   place_id: string;
   types: string[];
+  name?: string; // short name, e.g. "Main Street"
+  address_type?: string; // Nominatim addresstype: road, city, country...
+  importance?: number; // Nominatim importance, 0-1
+  distance?: number; // meters from the location results were ranked against
+  score?: number; // ranking score, 0-1, set when results are ranked
 }
 
 export interface DirectionsRequest {
@@ -183,15 +240,30 @@ export interface DirectionsRequest {
   avoid?: ('highways' | 'tolls' | 'ferries')[];
   units?: DistanceUnits;
   language?: string;
+  alternatives?: boolean; // ask for alternative routes where the provider supports them
+  pedestrian?: PedestrianPreferences; // only applied when mode is 'walking'
 }
 
 export interface NavigationUpdate {
   location: Coordinates;
   speed?: number;
-  heading?: number;
+  heading?: number; // device heading in degrees (0-360), where the user is facing
+  course?: number; // course over ground in degrees (0-360), where the user is moving
   timestamp: Date;
 }
 
+// When a stop can be visited, e.g. a pharmacy that closes at 18:00
+export interface StopTimeWindow {
+  earliest?: Date; // arriving earlier means waiting
+  latest?: Date; // arriving later is avoided where any order allows it
+  dwellSeconds?: number; // time spent at the stop before moving on
+}
+
+export interface TripOptions {
+  optimizeStopOrder?: boolean; // visit waypoints in the quickest order rather than as given
+  timeWindows?: (StopTimeWindow | undefined)[]; // per waypoint, in the order waypoints were given; set from code only, no voice command yet
+}
+
 export interface Waypoint {
   id: string;
   location: RoutePoint;
@@ -191,10 +191,14 @@ export function closestPointOnLine(
   lineStart: Coordinates,
   lineEnd: Coordinates
 ): Coordinates {
+  // Scale longitude by latitude so the projection is done in roughly metric space;
+  // otherwise east-west offsets are overweighted away from the equator
+  const lngScale = Math.cos(degreesToRadians((lineStart.lat + lineEnd.lat) / 2));
+
   const A = point.lat - lineStart.lat;
-  const B = point.lng - lineStart.lng;
+  const B = (point.lng - lineStart.lng) * lngScale;
   const C = lineEnd.lat - lineStart.lat;
-  const D = lineEnd.lng - lineStart.lng;
+  const D = (lineEnd.lng - lineStart.lng) * lngScale;
 
   const dot = A * C + B * D;
   const lenSq = C * C + D * D;
@@ -214,12 +218,89 @@ export function closestPointOnLine(
     yy = lineEnd.lng;
   } else {
     xx = lineStart.lat + param * C;
-    yy = lineStart.lng + param * D;
+    yy = lineStart.lng + param * (lineEnd.lng - lineStart.lng);
   }
 
   return { lat: xx, lng: yy };
 }
 
+/**
+ * Result of projecting a point onto a polyline
+ */
+export interface PolylineProjection {
+  point: Coordinates; // Closest point on the polyline
+  distance: number; // Distance from the input point to the polyline in meters
+  alongDistance: number; // Distance from the start of the polyline to the projected point in meters
+  segmentIndex: number; // Index of the segment containing the projected point
+}
+
+/**
+ * Calculate the cumulative distance to each vertex of a polyline
+ * @param line Ordered polyline coordinates
+ * @returns Distance in meters from the first vertex to each vertex
+ */
+export function calculateCumulativeDistances(line: Coordinates[]): number[] {
+  const cumulative: number[] = [];
+  let total = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    if (i > 0) {
+      total += calculateDistance(line[i - 1], line[i]);
+    }
+    cumulative.push(total);
+  }
+
+  return cumulative;
+}
+
+/**
+ * Project a point onto the closest segment of a polyline
+ * @param point The point to project
+ * @param line Ordered polyline coordinates
+ * @param cumulativeDistances Precomputed cumulative distances for the line (optional)
+ * @param fromSegment First segment index to consider (default: 0)
+ * @param toSegment Last segment index to consider (default: last segment)
+ * @returns Projection onto the closest segment, or null if the line is empty
+ */
+export function projectOntoPolyline(
+  point: Coordinates,
+  line: Coordinates[],
+  cumulativeDistances: number[] = calculateCumulativeDistances(line),
+  fromSegment: number = 0,
+  toSegment: number = line.length - 2
+): PolylineProjection | null {
+  if (line.length === 0) return null;
+
+  if (line.length === 1) {
+    return {
+      point: line[0],
+      distance: calculateDistance(point, line[0]),
+      alongDistance: 0,
+      segmentIndex: 0
+    };
+  }
+
+  const first = Math.max(0, Math.min(fromSegment, line.length - 2));
+  const last = Math.max(first, Math.min(toSegment, line.length - 2));
+  let best: PolylineProjection | null = null;
+
+  for (let i = first; i <= last; i++) {
+    const closest = closestPointOnLine(point, line[i], line[i + 1]);
+    const distance = calculateDistance(point, closest);
+
+    if (!best || distance < best.distance) {
+      best = {
+        point: closest,
+        distance,
+        alongDistance: cumulativeDistances[i] + calculateDistance(line[i], closest),
+        segmentIndex: i
+      };
+    }
+  }
+
+  return best;
+}
+
 /**
  * Check if coordinates are valid
  * @param coordinates Coordinates to validate
@@ -256,8 +337,33 @@ export function radiansToDegrees(radians: number): number {
   return radians * 180 / Math.PI;
 }
 
+/**
+ * Convert an absolute bearing to one relative to the user's heading
+ * @param bearing Absolute bearing to the target in degrees (0-360)
+ * @param heading Direction the user is facing or moving in degrees (0-360)
+ * @returns Relative bearing in degrees (0-360, 0 = straight ahead, 90 = right)
+ */
+export function getRelativeBearing(bearing: number, heading: number): number {
+  return (((bearing - heading) % 360) + 360) % 360;
+}
+
+/**
+ * Get the compass direction for a bearing
+ * @param bearing Bearing in degrees (0-360)
+ * @param abbreviated Whether to return the short form (NE vs north-east)
+ * @returns Compass direction name
+ */
+export function getCompassDirection(bearing: number, abbreviated: boolean = true): string {
+  const short = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  const long = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+  const index = Math.round((((bearing % 360) + 360) % 360) / 45) % 8;
+
+  return abbreviated ? short[index] : long[index];
+}
+
 /**
  * Get directional arrow based on bearing
+ * Pass a relative bearing (see getRelativeBearing) for arrows where ^ means straight ahead
  * @param bearing Bearing in degrees (0-360)
  * @returns Arrow character (^, >, v, <)
  */
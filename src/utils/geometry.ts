@@ -0,0 +1,192 @@
+/**
+ * Geometry Utility Functions
+ * Decodes and encodes route geometry between provider formats and the app's coordinate sequences
+ */
+
+import { Coordinates } from '../types/navigation.js';
+import { validateCoordinates } from './distance.js';
+
+/**
+ * Ordered list of coordinates describing a path - the internal form of all route geometry
+ */
+export type CoordinateSequence = Coordinates[];
+
+/**
+ * GeoJSON LineString as returned by Mapbox/OSRM with geometries=geojson
+ */
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: number[][]; // [lng, lat] pairs
+}
+
+/**
+ * Precision used for geometry stored on NavigationRoute (overview_polyline, step polyline.points)
+ */
+export const ROUTE_GEOMETRY_PRECISION = 6;
+
+/**
+ * Decode an encoded polyline (Google polyline algorithm)
+ * @param encoded Encoded polyline string
+ * @param precision Number of decimal places encoded (5 for Google/ORS, 6 for Mapbox/OSRM polyline6)
+ * @returns Decoded coordinates
+ */
+export function decodePolyline(encoded: string, precision: number = 5): CoordinateSequence {
+  const factor = Math.pow(10, precision);
+  const coordinates: CoordinateSequence = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    const latDelta = decodeValue(encoded, index);
+    const lngDelta = decodeValue(encoded, latDelta.nextIndex);
+    if (!latDelta.complete || !lngDelta.complete) {
+      break; // Truncated input - keep what decoded cleanly
+    }
+
+    index = lngDelta.nextIndex;
+    lat += latDelta.value;
+    lng += lngDelta.value;
+    coordinates.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return coordinates;
+}
+
+/**
+ * Encode coordinates as a polyline string
+ * @param coordinates Coordinates to encode
+ * @param precision Number of decimal places to keep (default: 5)
+ * @returns Encoded polyline string
+ */
+export function encodePolyline(coordinates: CoordinateSequence, precision: number = 5): string {
+  const factor = Math.pow(10, precision);
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  for (const coord of coordinates) {
+    const lat = Math.round(coord.lat * factor);
+    const lng = Math.round(coord.lng * factor);
+    encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return encoded;
+}
+
+/**
+ * Convert a GeoJSON LineString to coordinates
+ * @param lineString GeoJSON LineString with [lng, lat] positions
+ * @returns Coordinates in path order
+ */
+export function fromGeoJSONLineString(lineString: GeoJSONLineString): CoordinateSequence {
+  return lineString.coordinates
+    .filter(position => Array.isArray(position) && position.length >= 2)
+    .map(position => ({ lat: position[1], lng: position[0] }));
+}
+
+/**
+ * Convert coordinates to a GeoJSON LineString
+ * @param coordinates Coordinates in path order
+ * @returns GeoJSON LineString with [lng, lat] positions
+ */
+export function toGeoJSONLineString(coordinates: CoordinateSequence): GeoJSONLineString {
+  return {
+    type: 'LineString',
+    coordinates: coordinates.map(coord => [coord.lng, coord.lat])
+  };
+}
+
+/**
+ * Decode geometry in any supported provider format
+ * @param geometry GeoJSON LineString (object or JSON string) or encoded polyline
+ * @param precision Precision of encoded polylines (default: route storage precision)
+ * @returns Decoded coordinates, or an empty sequence if the geometry is unusable
+ */
+export function decodeGeometry(geometry: unknown, precision: number = ROUTE_GEOMETRY_PRECISION): CoordinateSequence {
+  let decoded: CoordinateSequence = [];
+
+  if (isGeoJSONLineString(geometry)) {
+    decoded = fromGeoJSONLineString(geometry);
+  } else if (typeof geometry === 'string' && geometry.trim().startsWith('{')) {
+    try {
+      const parsed = JSON.parse(geometry);
+      if (isGeoJSONLineString(parsed)) {
+        decoded = fromGeoJSONLineString(parsed);
+      }
+    } catch {
+      return [];
+    }
+  } else if (typeof geometry === 'string') {
+    decoded = decodePolyline(geometry, precision);
+  }
+
+  // Garbage input decodes to out-of-range values rather than failing
+  return decoded.every(coord => validateCoordinates(coord)) ? decoded : [];
+}
+
+/**
+ * Encode coordinates in the format stored on NavigationRoute
+ * @param coordinates Coordinates to encode
+ * @returns polyline6 string
+ */
+export function encodeRouteGeometry(coordinates: CoordinateSequence): string {
+  return encodePolyline(coordinates, ROUTE_GEOMETRY_PRECISION);
+}
+
+/**
+ * Take the coordinates between two vertex indices (inclusive)
+ * @param coordinates Full path
+ * @param fromIndex First vertex index
+ * @param toIndex Last vertex index
+ * @returns Sub-path, or an empty sequence if the indices are out of range
+ */
+export function sliceGeometry(coordinates: CoordinateSequence, fromIndex: number, toIndex: number): CoordinateSequence {
+  if (fromIndex < 0 || toIndex >= coordinates.length || fromIndex > toIndex) {
+    return [];
+  }
+  return coordinates.slice(fromIndex, toIndex + 1);
+}
+
+function isGeoJSONLineString(value: unknown): value is GeoJSONLineString {
+  return typeof value === 'object'
+    && value !== null
+    && (value as GeoJSONLineString).type === 'LineString'
+    && Array.isArray((value as GeoJSONLineString).coordinates);
+}
+
+function decodeValue(encoded: string, startIndex: number): { value: number; nextIndex: number; complete: boolean } {
+  let result = 0;
+  let shift = 0;
+  let index = startIndex;
+  let byte: number;
+
+  do {
+    if (index >= encoded.length) {
+      return { value: 0, nextIndex: index, complete: false };
+    }
+    byte = encoded.charCodeAt(index++) - 63;
+    result |= (byte & 0x1f) << shift;
+    shift += 5;
+  } while (byte >= 0x20);
+
+  return {
+    value: (result & 1) ? ~(result >> 1) : (result >> 1),
+    nextIndex: index,
+    complete: true
+  };
+}
+
+function encodeValue(value: number): string {
+  let remaining = value < 0 ? ~(value << 1) : (value << 1);
+  let encoded = '';
+
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+
+  return encoded + String.fromCharCode(remaining + 63);
+}
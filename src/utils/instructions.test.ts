@@ -0,0 +1,65 @@
+import { countStreetCrossings, describeRouteOption } from './instructions.js';
+import { NavigationRoute, RouteStep } from '../types/navigation.js';
+
+function step(crossings?: number): RouteStep {
+  const location = { lat: 52.5, lng: 13.4 };
+  return {
+    distance: { text: '100 m', value: 100 },
+    duration: { text: '1m', value: 70 },
+    startLocation: location,
+    endLocation: location,
+    instructions: 'Continue on Main Street',
+    polyline: { points: '' },
+    travel_mode: 'WALKING',
+    crossings
+  };
+}
+
+function route(durationSeconds: number, stepCrossings: (number | undefined)[]): NavigationRoute {
+  const location = { lat: 52.5, lng: 13.4 };
+  return {
+    id: 'route',
+    startLocation: location,
+    endLocation: location,
+    waypoints: [],
+    overview_polyline: '',
+    distance: { text: '1.0 km', value: 1000 },
+    duration: { text: '', value: durationSeconds },
+    legs: [{
+      distance: { text: '1.0 km', value: 1000 },
+      duration: { text: '', value: durationSeconds },
+      startLocation: location,
+      endLocation: location,
+      startAddress: '',
+      endAddress: '',
+      steps: stepCrossings.map(step)
+    }],
+    warnings: []
+  };
+}
+
+describe('countStreetCrossings', () => {
+  it('adds up the crossings reported on each step', () => {
+    expect(countStreetCrossings(route(600, [1, 0, 2]))).toBe(3);
+  });
+
+  it('is unknown when any step lacks crossing data', () => {
+    expect(countStreetCrossings(route(600, [1, undefined]))).toBeUndefined();
+  });
+});
+
+describe('describeRouteOption', () => {
+  it('states known crossings, including none', () => {
+    expect(describeRouteOption(route(720, [2, 2]), 1)).toBe('Route 1: 12 minutes, 4 crossings');
+    expect(describeRouteOption(route(720, [0]), 1)).toBe('Route 1: 12 minutes, 0 crossings');
+  });
+
+  it('compares crossings with the first route when both are known', () => {
+    expect(describeRouteOption(route(900, [1]), 2, route(720, [3]))).toBe('Route 2: 3 minutes longer, 2 fewer crossings');
+  });
+
+  it('leaves crossings out when the provider does not report them', () => {
+    expect(describeRouteOption(route(720, [undefined]), 1)).toBe('Route 1: 12 minutes');
+    expect(describeRouteOption(route(900, [undefined]), 2, route(720, [3]))).toBe('Route 2: 3 minutes longer');
+  });
+});
@@ -3,9 +3,35 @@
  * Handles processing, formatting, and voice generation for navigation instructions
  */
 
-import { NavigationInstruction, DistanceUnits, NavigationSettings } from '../types/navigation.js';
+import { NavigationInstruction, NavigationRoute, DistanceUnits, NavigationSettings } from '../types/navigation.js';
 import { formatDistance, formatDuration } from './distance.js';
 
+// Distances up to this are spoken in walking steps in accessibility mode
+const STEP_CUE_MAX_DISTANCE = 20; // meters
+
+// Announcement distances for accessibility mode, keyed by announcement frequency (1-5)
+const PEDESTRIAN_ANNOUNCEMENT_THRESHOLDS: Record<number, number[]> = {
+  1: [50, 10], // Minimal
+  2: [100, 30, 10], // Low
+  3: [150, 50, 20, 8], // Normal
+  4: [200, 100, 50, 20, 8], // Frequent
+  5: [300, 150, 100, 50, 30, 15, 8] // Maximum
+};
+
+/**
+ * Turn phrases relative to the user's body, used by accessibility mode
+ */
+const EGOCENTRIC_ACTIONS: Record<NonNullable<NavigationInstruction['direction']>, string> = {
+  'left': 'Turn left',
+  'right': 'Turn right',
+  'slight-left': 'Bear left',
+  'slight-right': 'Bear right',
+  'sharp-left': 'Turn sharply left',
+  'sharp-right': 'Turn sharply right',
+  'u-turn': 'Turn around',
+  'straight': 'Continue straight'
+};
+
 /**
  * Convert turn maneuver codes to human-readable directions
  */
@@ -81,39 +107,133 @@ export function formatInstruction(
   return formatted;
 }
 
+/**
+ * Describe a relative bearing in words suitable for speech
+ * @param relativeBearing Bearing relative to the user's heading in degrees (0 = straight ahead, 90 = right)
+ * @returns Phrase such as "straight ahead" or "to your left"
+ */
+export function describeRelativeDirection(relativeBearing: number): string {
+  const normalized = ((relativeBearing % 360) + 360) % 360;
+
+  if (normalized <= 20 || normalized >= 340) return 'straight ahead';
+  if (normalized < 60) return 'slightly to your right';
+  if (normalized <= 120) return 'to your right';
+  if (normalized < 160) return 'behind you to the right';
+  if (normalized <= 200) return 'behind you';
+  if (normalized < 240) return 'behind you to the left';
+  if (normalized <= 300) return 'to your left';
+  return 'slightly to your left';
+}
+
+/**
+ * Convert a relative bearing to a clock-face position
+ * @param relativeBearing Bearing relative to the user's heading in degrees (0 = straight ahead)
+ * @returns Hour on a clock face (12 = straight ahead, 3 = right, 6 = behind, 9 = left)
+ */
+export function getClockPosition(relativeBearing: number): number {
+  const normalized = ((relativeBearing % 360) + 360) % 360;
+  const hour = Math.round(normalized / 30) % 12;
+  return hour === 0 ? 12 : hour;
+}
+
+/**
+ * Format a distance for speech, using walking steps for short distances
+ * @param meters Distance in meters
+ * @param settings Navigation settings (units and stride length)
+ * @returns Spoken distance such as "15 steps" or "120 meters"
+ */
+export function formatSpokenDistance(meters: number, settings: NavigationSettings): string {
+  const strideMeters = (settings.stride_length || 70) / 100;
+
+  if (meters <= STEP_CUE_MAX_DISTANCE) {
+    const steps = Math.max(1, Math.round(meters / strideMeters));
+    return `${steps} ${steps === 1 ? 'step' : 'steps'}`;
+  }
+
+  if (settings.distance_units === 'imperial') {
+    const feet = meters * 3.28084;
+    return feet >= 528 ? `${(feet / 5280).toFixed(1)} miles` : `${Math.round(feet / 10) * 10} feet`;
+  }
+
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} kilometers` : `${Math.round(meters / 5) * 5} meters`;
+}
+
+/**
+ * Generate an egocentric spoken cue for pedestrian accessibility mode
+ * @param instruction Upcoming navigation instruction
+ * @param distance Distance to the instruction point in meters
+ * @param settings Navigation settings
+ * @param relativeBearing Bearing to the instruction point relative to the user's heading (optional)
+ * @returns Cue such as "Turn left in 15 steps" or "Destination at 2 o'clock, 40 meters"
+ */
+export function formatEgocentricInstruction(
+  instruction: NavigationInstruction,
+  distance: number,
+  settings: NavigationSettings,
+  relativeBearing?: number
+): string {
+  const spokenDistance = formatSpokenDistance(distance, settings);
+
+  if (instruction.isDestination) {
+    return relativeBearing !== undefined
+      ? `Destination at ${getClockPosition(relativeBearing)} o'clock, ${spokenDistance}`
+      : `Destination in ${spokenDistance}`;
+  }
+
+  const action = getEgocentricAction(instruction);
+  const street = instruction.streetName ? ` onto ${instruction.streetName}` : '';
+
+  return `${action}${street} in ${spokenDistance}`;
+}
+
 /**
  * Generate voice announcement text based on distance to next turn
  * @param instruction Next navigation instruction
  * @param distance Distance to the instruction in meters
  * @param units Distance units preference
  * @param settings Navigation settings
+ * @param relativeBearing Bearing to the instruction point relative to the user's heading (optional)
  * @returns Voice announcement text or null if no announcement needed
  */
 export function generateVoiceAnnouncement(
   instruction: NavigationInstruction,
   distance: number,
   units: DistanceUnits,
-  settings: NavigationSettings
+  settings: NavigationSettings,
+  relativeBearing?: number
 ): string | null {
   if (!settings.voice_guidance) {
     return null;
   }
 
-  const announcement = formatInstruction(instruction, units, true);
-  
-  // Determine announcement thresholds based on frequency setting
-  const thresholds = getAnnouncementThresholds(settings.announcement_frequency);
-  
-  // Check if we should announce at this distance
-  const shouldAnnounce = thresholds.some(threshold => 
-    Math.abs(distance - threshold) < 10 // Within 10 meters of threshold
-  );
-
-  if (!shouldAnnounce) {
+  if (findAnnouncementThreshold(distance, settings) === null) {
     return null;
   }
 
-  return announcement;
+  if (settings.accessibility_mode) {
+    return formatEgocentricInstruction(instruction, distance, settings, relativeBearing);
+  }
+
+  return formatInstruction({ ...instruction, distance }, units, true);
+}
+
+/**
+ * Find the announcement threshold a distance falls on, if any
+ * @param distance Distance to the next instruction in meters
+ * @param settings Navigation settings
+ * @returns Threshold in meters, or null if no announcement is due at this distance
+ */
+export function findAnnouncementThreshold(distance: number, settings: NavigationSettings): number | null {
+  const thresholds = settings.accessibility_mode
+    ? getPedestrianAnnouncementThresholds(settings.announcement_frequency)
+    : getAnnouncementThresholds(settings.announcement_frequency);
+
+  // Tolerance shrinks with the threshold so close-range cues stay precise
+  const threshold = thresholds.find(value =>
+    Math.abs(distance - value) < Math.max(3, Math.min(10, value * 0.2))
+  );
+
+  return threshold ?? null;
 }
 
 /**
@@ -138,6 +258,26 @@ function getAnnouncementThresholds(frequency: number): number[] {
   }
 }
 
+/**
+ * Get distance thresholds for accessibility mode announcements, tuned to walking distances
+ * @param frequency Announcement frequency (1-5 scale)
+ * @returns Array of distance thresholds in meters
+ */
+function getPedestrianAnnouncementThresholds(frequency: number): number[] {
+  return PEDESTRIAN_ANNOUNCEMENT_THRESHOLDS[frequency] || PEDESTRIAN_ANNOUNCEMENT_THRESHOLDS[3];
+}
+
+/**
+ * Action phrase for an instruction's turn, independent of compass direction
+ */
+function getEgocentricAction(instruction: NavigationInstruction): string {
+  if (instruction.direction) {
+    return EGOCENTRIC_ACTIONS[instruction.direction];
+  }
+
+  return MANEUVER_INSTRUCTIONS[instruction.maneuver || 'continue'] || 'Continue';
+}
+
 /**
  * Clean and simplify HTML instructions from mapping services
  * @param htmlInstruction HTML instruction from Google Maps or similar
@@ -279,6 +419,21 @@ export function formatDisplayInstruction(
   return `${distance} - ${display}`;
 }
 
+/**
+ * Find the progress milestone the remaining distance is at, if any
+ * @param remainingDistance Distance remaining to destination in meters
+ * @param units Distance units
+ * @returns The milestone in meters, or null between milestones
+ */
+export function findProgressMilestone(remainingDistance: number, units: DistanceUnits): number | null {
+  // Only announce at significant milestones
+  const milestones = units === 'imperial' 
+    ? [50 * 1609.34, 25 * 1609.34, 10 * 1609.34, 5 * 1609.34, 1609.34] // Miles to meters
+    : [100000, 50000, 25000, 10000, 5000, 1000]; // Meters
+
+  return milestones.find(milestone => Math.abs(remainingDistance - milestone) < 100) ?? null;
+}
+
 /**
  * Generate progress announcement for long distances
  * @param remainingDistance Distance remaining to destination in meters
@@ -289,20 +444,57 @@ export function generateProgressAnnouncement(
   remainingDistance: number,
   units: DistanceUnits
 ): string | null {
+  if (findProgressMilestone(remainingDistance, units) === null) {
+    return null;
+  }
+
   const formattedDistance = formatDistance(remainingDistance, units);
-  
-  // Only announce at significant milestones
-  const milestones = units === 'imperial' 
-    ? [50 * 1609.34, 25 * 1609.34, 10 * 1609.34, 5 * 1609.34, 1609.34] // Miles to meters
-    : [100000, 50000, 25000, 10000, 5000, 1000]; // Meters
+  return `${formattedDistance} remaining to destination`;
+}
 
-  const isAtMilestone = milestones.some(milestone => 
-    Math.abs(remainingDistance - milestone) < 100
-  );
+/**
+ * Count the street crossings on a route, from the crossing counts its provider put on the steps
+ * @param route Route to inspect
+ * @returns Number of crossings, or undefined when the provider doesn't report crossings
+ */
+export function countStreetCrossings(route: NavigationRoute): number | undefined {
+  const steps = route.legs.flatMap(leg => leg.steps);
+  if (steps.length === 0 || steps.some(step => step.crossings === undefined)) {
+    return undefined;
+  }
+  return steps.reduce((total, step) => total + (step.crossings ?? 0), 0);
+}
 
-  if (!isAtMilestone) {
-    return null;
+/**
+ * Describe a route option for speech, relative to the first option when one is given
+ * @param route Route to describe
+ * @param routeNumber Number the user says to pick this route
+ * @param baseline First option, omitted when describing that option itself
+ * @returns Phrase such as "Route 1: 12 minutes, 4 crossings" or "Route 2: 3 minutes longer, 2 fewer crossings"
+ */
+export function describeRouteOption(route: NavigationRoute, routeNumber: number, baseline?: NavigationRoute): string {
+  const crossings = countStreetCrossings(route);
+
+  if (!baseline) {
+    // Unknown crossings are left out rather than implying there are none
+    const crossingText = crossings !== undefined ? `, ${crossings} ${crossings === 1 ? 'crossing' : 'crossings'}` : '';
+    return `Route ${routeNumber}: ${formatDuration(route.duration.value)}${crossingText}`;
   }
 
-  return `${formattedDistance} remaining to destination`;
-} 
\ No newline at end of file
+  const parts: string[] = [];
+  const minutes = Math.round((route.duration.value - baseline.duration.value) / 60);
+  if (minutes === 0) {
+    parts.push('about the same time');
+  } else {
+    parts.push(`${Math.abs(minutes)} ${Math.abs(minutes) === 1 ? 'minute' : 'minutes'} ${minutes > 0 ? 'longer' : 'faster'}`);
+  }
+
+  const baselineCrossings = countStreetCrossings(baseline);
+  const crossingDifference = crossings !== undefined && baselineCrossings !== undefined ? crossings - baselineCrossings : 0;
+  if (crossingDifference !== 0) {
+    const count = Math.abs(crossingDifference);
+    parts.push(`${count} ${crossingDifference > 0 ? 'more' : 'fewer'} ${count === 1 ? 'crossing' : 'crossings'}`);
+  }
+
+  return `Route ${routeNumber}: ${parts.join(', ')}`;
+}
@@ -0,0 +1,73 @@
+import { isOpenAt, isValidTimeZone } from './openingHours.js';
+
+// Wall-clock times in UTC; 2024-06-03 is a Monday
+function utc(day: number, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(2024, 5, 3 + day, hours, minutes));
+}
+
+const MONDAY = 0;
+const TUESDAY = 1;
+const WEDNESDAY = 2;
+const FRIDAY = 4;
+const SATURDAY = 5;
+const SUNDAY = 6;
+
+describe('isOpenAt', () => {
+  it('applies day ranges and time intervals', () => {
+    const hours = 'Mo-Fr 08:00-18:00; Sa 10:00-14:00';
+
+    expect(isOpenAt(hours, utc(MONDAY, '08:00'), 'UTC')).toBe(true);
+    expect(isOpenAt(hours, utc(MONDAY, '18:00'), 'UTC')).toBe(false);
+    expect(isOpenAt(hours, utc(SATURDAY, '15:00'), 'UTC')).toBe(false);
+    expect(isOpenAt(hours, utc(SUNDAY, '12:00'), 'UTC')).toBe(false);
+  });
+
+  it('wraps day ranges past Sunday', () => {
+    const hours = 'Fr-Mo 10:00-16:00';
+
+    expect(isOpenAt(hours, utc(SUNDAY, '12:00'), 'UTC')).toBe(true);
+    expect(isOpenAt(hours, utc(MONDAY, '12:00'), 'UTC')).toBe(true);
+    expect(isOpenAt(hours, utc(TUESDAY, '12:00'), 'UTC')).toBe(false);
+  });
+
+  it('keeps an interval running past midnight open into the next day', () => {
+    const hours = 'Fr 18:00-02:00';
+
+    expect(isOpenAt(hours, utc(FRIDAY, '23:30'), 'UTC')).toBe(true);
+    expect(isOpenAt(hours, utc(SATURDAY, '01:00'), 'UTC')).toBe(true);
+    expect(isOpenAt(hours, utc(SATURDAY, '02:00'), 'UTC')).toBe(false);
+    expect(isOpenAt(hours, utc(FRIDAY, '01:00'), 'UTC')).toBe(false);
+  });
+
+  it('lets a later "off" rule close days an earlier rule opened', () => {
+    const hours = 'Mo-Sa 09:00-17:00; We off';
+
+    expect(isOpenAt(hours, utc(TUESDAY, '12:00'), 'UTC')).toBe(true);
+    expect(isOpenAt(hours, utc(WEDNESDAY, '12:00'), 'UTC')).toBe(false);
+  });
+
+  it('leaves public holiday rules out', () => {
+    expect(isOpenAt('Mo-Fr 09:00-17:00; PH off', utc(MONDAY, '12:00'), 'UTC')).toBe(true);
+    expect(isOpenAt('Mo-Fr,PH 09:00-17:00', utc(FRIDAY, '12:00'), 'UTC')).toBe(true);
+    expect(isOpenAt('PH 10:00-12:00', utc(MONDAY, '11:00'), 'UTC')).toBeUndefined();
+  });
+
+  it('reads the time on the place\'s clocks', () => {
+    // 01:00 UTC on Tuesday is still Monday evening in New York
+    expect(isOpenAt('Mo 18:00-22:00', utc(TUESDAY, '01:00'), 'America/New_York')).toBe(true);
+    expect(isOpenAt('Mo 18:00-22:00', utc(TUESDAY, '01:00'), 'UTC')).toBe(false);
+  });
+
+  it('handles 24/7 and gives up on syntax it does not understand', () => {
+    expect(isOpenAt('24/7', utc(SUNDAY, '03:00'), 'UTC')).toBe(true);
+    expect(isOpenAt('sunrise-sunset', utc(MONDAY, '12:00'), 'UTC')).toBeUndefined();
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects others', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Opening Hours
+ * Evaluates the common forms of the OpenStreetMap opening_hours tag, e.g. "Mo-Fr 08:00-18:00; Sa 10:00-14:00"
+ */
+
+const DAY_NAMES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']; // Date.getDay() order
+
+// Minutes since midnight; an interval may end after 24:00 when it runs past midnight
+interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+interface OpeningRule {
+  days: Set<number>; // getDay() numbers the rule applies to
+  intervals: TimeInterval[]; // empty when the rule closes those days
+}
+
+/**
+ * Whether a place is open at a given time
+ * @param openingHours Value of the OSM opening_hours tag
+ * @param date Time to check (default: now)
+ * @param timeZone IANA time zone the place keeps its hours in, e.g. 'America/New_York' (default: the server's)
+ * @returns true or false, or undefined when the value uses syntax we don't understand
+ */
+export function isOpenAt(openingHours: string, date: Date = new Date(), timeZone?: string): boolean | undefined {
+  const rules = parseOpeningHours(openingHours);
+  if (!rules) return undefined;
+
+  const { day, minutes } = getWallClock(date, timeZone);
+  const yesterday = (day + 6) % 7;
+
+  const openToday = getIntervalsForDay(rules, day).some(interval => minutes >= interval.start && minutes < interval.end);
+  // "Fr 18:00-02:00" still has Friday's bar open at 1am on Saturday
+  const openFromYesterday = getIntervalsForDay(rules, yesterday)
+    .some(interval => interval.end > 24 * 60 && minutes < interval.end - 24 * 60);
+
+  return openToday || openFromYesterday;
+}
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Day of the week (getDay() numbering) and minutes since midnight on the clocks of a time zone
+ */
+function getWallClock(date: Date, timeZone?: string): { day: number; minutes: number } {
+  if (!timeZone) {
+    return { day: date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    day: DAY_NAMES.indexOf(part('weekday').slice(0, 2)), // "Mon" -> "Mo"
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10)
+  };
+}
+
+/**
+ * The intervals of the last rule that mentions the day - later rules override earlier ones
+ */
+function getIntervalsForDay(rules: OpeningRule[], day: number): TimeInterval[] {
+  let intervals: TimeInterval[] = [];
+  for (const rule of rules) {
+    if (rule.days.has(day)) {
+      intervals = rule.intervals;
+    }
+  }
+  return intervals;
+}
+
+function parseOpeningHours(value: string): OpeningRule[] | undefined {
+  const text = value.trim();
+  if (text === '24/7') {
+    return [{ days: new Set([0, 1, 2, 3, 4, 5, 6]), intervals: [{ start: 0, end: 24 * 60 }] }];
+  }
+
+  const rules: OpeningRule[] = [];
+  for (const part of text.split(';').map(rule => rule.trim()).filter(Boolean)) {
+    // We can't tell when public holidays are, so holiday rules are left out
+    if (/^PH\b/.test(part)) continue;
+
+    const rule = parseRule(part.replace(/,PH\b/g, ''));
+    if (!rule) return undefined;
+    rules.push(rule);
+  }
+
+  return rules.length > 0 ? rules : undefined;
+}
+
+/**
+ * Parse one rule: "Mo-Fr,Su 08:00-12:00,13:00-17:00", "Sa off" or a time list that applies every day
+ */
+function parseRule(rule: string): OpeningRule | undefined {
+  const match = rule.match(/^((?:[A-Z][a-z](?:-[A-Z][a-z])?,?)+)?\s*(.*)$/);
+  if (!match) return undefined;
+
+  const days = match[1] ? parseDays(match[1]) : new Set([0, 1, 2, 3, 4, 5, 6]);
+  const times = match[2].trim();
+  if (!days) return undefined;
+
+  if (times === 'off' || times === 'closed') {
+    return { days, intervals: [] };
+  }
+
+  const intervals: TimeInterval[] = [];
+  for (const range of times.split(',').map(time => time.trim())) {
+    const interval = range.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+    if (!interval) return undefined;
+
+    const start = parseInt(interval[1], 10) * 60 + parseInt(interval[2], 10);
+    let end = parseInt(interval[3], 10) * 60 + parseInt(interval[4], 10);
+    if (end <= start) end += 24 * 60; // runs past midnight
+    intervals.push({ start, end });
+  }
+
+  return { days, intervals };
+}
+
+function parseDays(text: string): Set<number> | undefined {
+  const days = new Set<number>();
+
+  for (const part of text.split(',').filter(Boolean)) {
+    const [from, to] = part.split('-').map(name => DAY_NAMES.indexOf(name));
+    if (from < 0 || (to !== undefined && to < 0)) return undefined;
+
+    // Ranges may wrap past Sunday, e.g. "Fr-Mo"
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (to === undefined || day === to) break;
+    }
+  }
+
+  return days;
+}